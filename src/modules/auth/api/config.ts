@@ -0,0 +1,146 @@
+import {
+  stringField,
+  numberField,
+  booleanField,
+  enumField,
+  listField,
+  jsonField
+} from '@nextq/config/api'
+
+import { defaultTokenLifetimes } from './utils'
+import {
+  DEFAULT_HASH_COST,
+  DEFAULT_AUDIT_LOG_TTL,
+  DEFAULT_REFRESH_REUSE_GRACE
+} from './models'
+import {
+  generateKeySetSigner,
+  SigningKeyJwk
+} from './signingKeys'
+
+/**
+ * Config sections contributed by the auth module
+ */
+export const authConfigSections = {
+  tokens: {
+    accessSecret: stringField({
+      env: 'JWT_ACCESS_SECRET',
+      minLength: 32
+    }),
+    refreshSecret: stringField({
+      env: 'JWT_REFRESH_SECRET',
+      minLength: 32
+    }),
+    accessTokenTtl: numberField({
+      env: 'ACCESS_TOKEN_TTL',
+      default: defaultTokenLifetimes.accessToken,
+      min: 60,
+      integer: true
+    }),
+    refreshTokenTtl: numberField({
+      env: 'REFRESH_TOKEN_TTL',
+      default: defaultTokenLifetimes.refreshToken,
+      min: 60,
+      integer: true
+    }),
+    // seconds a rotated refresh token still gets the current one instead of revoking its session
+    refreshReuseGrace: numberField({
+      env: 'REFRESH_TOKEN_REUSE_GRACE',
+      default: DEFAULT_REFRESH_REUSE_GRACE,
+      min: 0,
+      integer: true
+    }),
+    // access tokens are signed with the shared secret when empty, the public keys are
+    // served at /api/.well-known/jwks.json & advertised by /api/.well-known/openid-configuration
+    signingKeys: jsonField<SigningKeyJwk[]>({
+      env: 'JWT_SIGNING_KEYS',
+      default: [],
+      validate: (keys): string | null => {
+        if (!Array.isArray(keys))
+          return 'must be an array of JWKs'
+        if (!keys.length) return null
+
+        try {
+          generateKeySetSigner(keys)
+          return null
+        } catch (e) {
+          return e.message
+        }
+      }
+    })
+  },
+  passwords: {
+    bcryptCost: numberField({
+      env: 'BCRYPT_COST',
+      default: DEFAULT_HASH_COST,
+      min: 4,
+      max: 31,
+      integer: true
+    }),
+    minLength: numberField({
+      env: 'PASSWORD_MIN_LENGTH',
+      default: 8,
+      min: 1,
+      integer: true
+    }),
+    requireLowercase: booleanField({
+      env: 'PASSWORD_REQUIRE_LOWERCASE',
+      default: false
+    }),
+    requireUppercase: booleanField({
+      env: 'PASSWORD_REQUIRE_UPPERCASE',
+      default: false
+    }),
+    requireDigit: booleanField({
+      env: 'PASSWORD_REQUIRE_DIGIT',
+      default: false
+    }),
+    requireSymbol: booleanField({
+      env: 'PASSWORD_REQUIRE_SYMBOL',
+      default: false
+    }),
+    // rejected on top of the common passwords
+    banned: listField({
+      env: 'PASSWORD_BANNED',
+      default: []
+    })
+  },
+  network: {
+    // X-Forwarded-For is only read from these, clients can forge it otherwise
+    trustedProxies: listField({
+      env: 'TRUSTED_PROXIES',
+      default: []
+    })
+  },
+  cookies: {
+    secure: booleanField({
+      env: 'COOKIE_SECURE',
+      default: true
+    }),
+    sameSite: enumField({
+      env: 'COOKIE_SAMESITE',
+      values: ['strict', 'lax', 'none'],
+      default: 'lax'
+    }),
+    // cookies are scoped to the current host when empty
+    domain: stringField({
+      env: 'COOKIE_DOMAIN',
+      default: ''
+    })
+  },
+  mail: {
+    outboxDir: stringField({
+      env: 'MAIL_OUTBOX_DIR',
+      default: 'outbox'
+    })
+  },
+  auditLog: {
+    // seconds events are kept for, applies to events recorded from then on
+    ttl: numberField({
+      env: 'AUDIT_LOG_TTL',
+      default: DEFAULT_AUDIT_LOG_TTL,
+      min: 60,
+      integer: true
+    })
+  }
+}
@@ -0,0 +1,138 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { Socket } from 'net'
+import { parse } from 'cookie'
+
+import {
+  generateAuthCookies,
+  csrfProtection,
+  CSRF_HEADER
+} from './cookies'
+
+const authCookies = generateAuthCookies()
+
+/**
+ * Builds request carrying the given headers
+ * @param headers headers of the request
+ * @returns request coming from client
+ */
+const request = (
+  headers: IncomingMessage['headers']
+): IncomingMessage => {
+  const req = new IncomingMessage(new Socket())
+  req.headers = headers
+
+  return req
+}
+
+/**
+ * Issues a csrf token the way sign in does
+ * @returns token set in the csrf cookie
+ */
+const issueCsrfToken = (): string => {
+  const res = new ServerResponse(request({}))
+  authCookies.setCsrfToken(res)
+
+  const header = res.getHeader('Set-Cookie')
+  const [cookie] = Array.isArray(header) ? header : [header]
+
+  return parse(String(cookie))['csrf-token']
+}
+
+describe('isCsrfValid', (): void => {
+  it('accepts a header matching the cookie', (): void => {
+    const token = issueCsrfToken()
+
+    expect(
+      authCookies.isCsrfValid(
+        request({
+          cookie: `csrf-token=${token}`,
+          [CSRF_HEADER]: token
+        })
+      )
+    ).toBe(true)
+  })
+
+  it('rejects a header not matching the cookie', (): void => {
+    expect(
+      authCookies.isCsrfValid(
+        request({
+          cookie: `csrf-token=${issueCsrfToken()}`,
+          [CSRF_HEADER]: issueCsrfToken()
+        })
+      )
+    ).toBe(false)
+  })
+
+  it('rejects a missing header or cookie', (): void => {
+    const token = issueCsrfToken()
+
+    expect(
+      authCookies.isCsrfValid(
+        request({ cookie: `csrf-token=${token}` })
+      )
+    ).toBe(false)
+    expect(
+      authCookies.isCsrfValid(
+        request({ [CSRF_HEADER]: token })
+      )
+    ).toBe(false)
+    expect(
+      authCookies.isCsrfValid(
+        request({
+          cookie: 'csrf-token=',
+          [CSRF_HEADER]: ''
+        })
+      )
+    ).toBe(false)
+  })
+
+  it('checks the csrf param of WebSocket connections', (): void => {
+    const token = issueCsrfToken()
+    const req = request({ cookie: `csrf-token=${token}` })
+
+    expect(
+      authCookies.isConnectionCsrfValid(req, {
+        [CSRF_HEADER]: token
+      })
+    ).toBe(true)
+    expect(
+      authCookies.isConnectionCsrfValid(req, {
+        [CSRF_HEADER]: issueCsrfToken()
+      })
+    ).toBe(false)
+    expect(authCookies.isConnectionCsrfValid(req, {})).toBe(
+      false
+    )
+  })
+})
+
+describe('csrfProtection', (): void => {
+  const resolve = async (): Promise<string> => 'resolved'
+  const mutation = csrfProtection.Mutation as (
+    ...args: unknown[]
+  ) => Promise<unknown>
+
+  it('resolves mutations of verified requests', async (): Promise<
+    void
+  > => {
+    expect(
+      await mutation(
+        resolve,
+        {},
+        {},
+        { csrfVerified: true },
+        {}
+      )
+    ).toBe('resolved')
+  })
+
+  it('rejects mutations failing the csrf check', async (): Promise<
+    void
+  > => {
+    await expect(
+      mutation(resolve, {}, {}, { csrfVerified: false }, {})
+    ).rejects.toMatchObject({
+      extensions: { code: 'CSRF_TOKEN_INVALID' }
+    })
+  })
+})
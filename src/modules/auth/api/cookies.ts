@@ -0,0 +1,260 @@
+import { ServerResponse, IncomingMessage } from 'http'
+import { serialize, parse } from 'cookie'
+import { randomBytes, timingSafeEqual } from 'crypto'
+import { IMiddlewareTypeMap } from 'graphql-middleware'
+
+import { CsrfTokenError } from './errors'
+import {
+  appendCookies,
+  AuthTokens,
+  defaultTokenLifetimes
+} from './utils'
+
+const ACCESS_TOKEN_COOKIE = 'access-token'
+const REFRESH_TOKEN_COOKIE = 'refresh-token'
+const CSRF_TOKEN_COOKIE = 'csrf-token'
+
+/**
+ * Header clients copy the `csrf-token` cookie into for mutations
+ */
+export const CSRF_HEADER = 'x-csrf-token'
+
+/**
+ * Attributes set on auth cookies
+ * @typedef AuthCookieOptions
+ */
+export interface AuthCookieOptions {
+  /** keeps scripts from reading the token cookies, the csrf cookie is always readable */
+  httpOnly: boolean
+  /** only sends cookies over https */
+  secure: boolean
+  sameSite: 'strict' | 'lax' | 'none'
+  path: string
+  domain?: string
+  /** seconds after which the access token cookie expires, should match the token's lifetime */
+  accessTokenMaxAge: number
+  /** seconds after which the refresh token & csrf cookies expire */
+  refreshTokenMaxAge: number
+}
+
+const defaultOptions: AuthCookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'lax',
+  path: '/',
+  accessTokenMaxAge: defaultTokenLifetimes.accessToken,
+  refreshTokenMaxAge: defaultTokenLifetimes.refreshToken
+}
+
+/**
+ * Auth related cookies sent by the client
+ * @typedef RequestCookies
+ */
+export interface RequestCookies {
+  accessToken?: string
+  refreshToken?: string
+  csrfToken?: string
+}
+
+/**
+ * Reads & writes the cookies used for cookie based auth
+ * @typedef AuthCookies
+ */
+export interface AuthCookies {
+  /**
+   * Reads auth cookies from the request
+   * @param req Request coming from client
+   * @returns tokens sent by the client
+   */
+  read: (req: IncomingMessage) => RequestCookies
+  /**
+   * Adds the provided tokens to the response
+   * @param tokens JWT tokens
+   * @param res Response sent out to client
+   */
+  setTokens: (
+    tokens: AuthTokens,
+    res: ServerResponse
+  ) => void
+  /**
+   * Adds a new csrf token to the response
+   * @param res Response sent out to client
+   */
+  setCsrfToken: (res: ServerResponse) => void
+  /**
+   * Removes every auth cookie from the client
+   * @param res Response sent out to client
+   */
+  clear: (res: ServerResponse) => void
+  /**
+   * Checks the csrf header matches the csrf cookie
+   * @param req Request coming from client
+   * @returns whether the request passed the double-submit check
+   */
+  isCsrfValid: (req: IncomingMessage) => boolean
+  /**
+   * Checks the csrf param of a WebSocket connection matches the csrf cookie,
+   * as browsers can't set headers on WebSocket requests
+   * @param req Upgrade request of the connection
+   * @param params Params sent by the client when connecting
+   * @returns whether the connection passed the double-submit check
+   */
+  isConnectionCsrfValid: (
+    req: IncomingMessage,
+    params: Record<string, unknown>
+  ) => boolean
+}
+
+/**
+ * Compares strings in constant time
+ * @param a first string
+ * @param b second string
+ * @returns whether they're equal
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+
+  return (
+    bufferA.length === bufferB.length &&
+    timingSafeEqual(bufferA, bufferB)
+  )
+}
+
+/**
+ * Generates helpers to read & write auth cookies
+ * @param options Attributes set on the cookies
+ * @returns auth cookies helpers
+ */
+export const generateAuthCookies = (
+  options: Partial<AuthCookieOptions> = {}
+): AuthCookies => {
+  const {
+    httpOnly,
+    accessTokenMaxAge,
+    refreshTokenMaxAge,
+    ...attributes
+  } = {
+    ...defaultOptions,
+    ...options
+  }
+
+  const read = (req: IncomingMessage): RequestCookies => {
+    const cookies = parse(req.headers.cookie || '')
+
+    return {
+      accessToken: cookies[ACCESS_TOKEN_COOKIE],
+      refreshToken: cookies[REFRESH_TOKEN_COOKIE],
+      csrfToken: cookies[CSRF_TOKEN_COOKIE]
+    }
+  }
+
+  const setTokens = (
+    { accessToken, refreshToken }: AuthTokens,
+    res: ServerResponse
+  ): void => {
+    appendCookies(res, [
+      serialize(REFRESH_TOKEN_COOKIE, refreshToken, {
+        ...attributes,
+        httpOnly,
+        maxAge: refreshTokenMaxAge
+      }),
+      serialize(ACCESS_TOKEN_COOKIE, accessToken, {
+        ...attributes,
+        httpOnly,
+        maxAge: accessTokenMaxAge
+      })
+    ])
+  }
+
+  const setCsrfToken = (res: ServerResponse): void => {
+    appendCookies(res, [
+      // readable so the client can copy it into the csrf header
+      serialize(
+        CSRF_TOKEN_COOKIE,
+        randomBytes(32).toString('hex'),
+        {
+          ...attributes,
+          httpOnly: false,
+          maxAge: refreshTokenMaxAge
+        }
+      )
+    ])
+  }
+
+  const clear = (res: ServerResponse): void => {
+    appendCookies(
+      res,
+      [
+        ACCESS_TOKEN_COOKIE,
+        REFRESH_TOKEN_COOKIE,
+        CSRF_TOKEN_COOKIE
+      ].map((name): string =>
+        serialize(name, '', { ...attributes, maxAge: 0 })
+      )
+    )
+  }
+
+  /**
+   * Checks the token matches the csrf cookie
+   * @param req Request coming from client
+   * @param token csrf token sent by the client
+   * @returns whether they match
+   */
+  const matchesCsrfToken = (
+    req: IncomingMessage,
+    token: unknown
+  ): boolean => {
+    const { csrfToken } = read(req)
+
+    return (
+      !!csrfToken &&
+      typeof token === 'string' &&
+      !!token &&
+      safeEqual(csrfToken, token)
+    )
+  }
+
+  const isCsrfValid = (req: IncomingMessage): boolean => {
+    const header = req.headers[CSRF_HEADER]
+
+    return matchesCsrfToken(
+      req,
+      Array.isArray(header) ? header[0] : header
+    )
+  }
+
+  const isConnectionCsrfValid = (
+    req: IncomingMessage,
+    params: Record<string, unknown>
+  ): boolean => matchesCsrfToken(req, params[CSRF_HEADER])
+
+  return Object.freeze({
+    read,
+    setTokens,
+    setCsrfToken,
+    clear,
+    isCsrfValid,
+    isConnectionCsrfValid
+  })
+}
+
+/**
+ * Rejects mutations authenticated by cookie which fail the csrf check
+ */
+export const csrfProtection: IMiddlewareTypeMap<
+  unknown,
+  { csrfVerified: boolean }
+> = {
+  Mutation: async (
+    resolve,
+    root,
+    args,
+    context,
+    info
+  ): Promise<unknown> => {
+    if (!context.csrfVerified) throw new CsrfTokenError()
+
+    return resolve(root, args, context, info)
+  }
+}
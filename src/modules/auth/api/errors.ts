@@ -0,0 +1,80 @@
+import { AppError } from '@nextq/errors/api'
+
+import { PasswordViolation } from './passwordPolicy'
+
+/**
+ * Thrown when sign in attempts for an email or client are temporarily blocked
+ */
+export class AccountLockedError extends AppError {
+  public constructor(lockedUntil: Date) {
+    super('ACCOUNT_LOCKED', {
+      lockedUntil: lockedUntil.toISOString(),
+      retryAfter: Math.ceil(
+        (lockedUntil.getTime() - Date.now()) / 1000
+      )
+    })
+  }
+}
+
+/**
+ * Thrown when a new password breaks the password policy
+ */
+export class WeakPasswordError extends AppError {
+  public constructor(violations: PasswordViolation[]) {
+    super('WEAK_PASSWORD', { violations })
+  }
+}
+
+/**
+ * Thrown when a mutation authenticated by cookie lacks a matching csrf token
+ */
+export class CsrfTokenError extends AppError {
+  public constructor() {
+    super('CSRF_TOKEN_INVALID')
+  }
+}
+
+/**
+ * Thrown when an account with the email already exists, emails are compared case insensitively
+ */
+export class EmailTakenError extends AppError {
+  public constructor() {
+    super('EMAIL_TAKEN')
+  }
+}
+
+/**
+ * Thrown when the email or password is wrong, which one isn't revealed
+ */
+export class InvalidCredentialsError extends AppError {
+  public constructor() {
+    super('INVALID_CREDENTIALS')
+  }
+}
+
+/**
+ * Thrown when an admin disabled the account
+ */
+export class AccountDisabledError extends AppError {
+  public constructor() {
+    super('ACCOUNT_DISABLED')
+  }
+}
+
+/**
+ * Thrown when a challenge, reset or verification token is invalid, expired or used
+ */
+export class InvalidTokenError extends AppError {
+  public constructor() {
+    super('INVALID_TOKEN')
+  }
+}
+
+/**
+ * Thrown when a TOTP or recovery code is wrong
+ */
+export class InvalidCodeError extends AppError {
+  public constructor() {
+    super('INVALID_CODE')
+  }
+}
@@ -3,3 +3,15 @@ import './env'
 export * from './typeDefs'
 export * from './models'
 export * from './utils'
+export * from './mailer'
+export * from './loginLimiter'
+export * from './errors'
+export * from './oidc'
+export * from './totp'
+export * from './permissionRules'
+export * from './passwordPolicy'
+export * from './cookies'
+export * from './config'
+export * from './signingKeys'
+export * from './migrations'
+export * from './module'
@@ -0,0 +1,219 @@
+import {
+  generateLoginLimiter,
+  generateMemoryAttemptStore,
+  LoginAttemptStore,
+  LoginLimiterOptions
+} from './loginLimiter'
+import {
+  AccountDisabledError,
+  AccountLockedError,
+  InvalidCredentialsError,
+  InvalidCodeError
+} from './errors'
+
+const noBackoff: Partial<LoginLimiterOptions> = {
+  baseDelay: 0,
+  maxDelay: 0
+}
+
+const fail = async (): Promise<never> => {
+  throw new InvalidCredentialsError()
+}
+
+const succeed = async (): Promise<string> => 'signed in'
+
+describe('generateLoginLimiter', (): void => {
+  afterEach((): void => {
+    jest.restoreAllMocks()
+  })
+
+  it('locks the email once it hits its failure limit', async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { ...noBackoff, maxEmailFailures: 3 }
+    )
+
+    for (let i = 0; i < 3; i++)
+      await expect(
+        limiter.attempt(
+          'user@example.com',
+          '10.0.0.1',
+          fail
+        )
+      ).rejects.toBeInstanceOf(InvalidCredentialsError)
+
+    // the right password is refused as well while locked
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.2',
+        succeed
+      )
+    ).rejects.toBeInstanceOf(AccountLockedError)
+    expect(
+      await limiter.getLockout('User@Example.com ')
+    ).not.toBeNull()
+  })
+
+  it('locks the ip once it hits its failure limit across emails', async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { ...noBackoff, maxIpFailures: 2 }
+    )
+
+    await expect(
+      limiter.attempt('a@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+    await expect(
+      limiter.attempt('b@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+
+    await expect(
+      limiter.assertNotLocked('c@example.com', '10.0.0.1')
+    ).rejects.toBeInstanceOf(AccountLockedError)
+    await expect(
+      limiter.assertNotLocked('c@example.com', '10.0.0.2')
+    ).resolves.toBeUndefined()
+  })
+
+  it('delays the next attempt after a failure', async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { baseDelay: 60000 }
+    )
+
+    await expect(
+      limiter.attempt('user@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+
+    const error = await limiter
+      .attempt('user@example.com', '10.0.0.2', succeed)
+      .then((): null => null, (e): AccountLockedError => e)
+    expect(error).toBeInstanceOf(AccountLockedError)
+    expect(
+      error && error.extensions.retryAfter
+    ).toBeGreaterThan(55)
+  })
+
+  it('clears the email failures after a successful attempt', async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { ...noBackoff, maxEmailFailures: 2 }
+    )
+
+    await expect(
+      limiter.attempt('user@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.1',
+        succeed
+      )
+    ).resolves.toBe('signed in')
+    await expect(
+      limiter.attempt('user@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+
+    expect(
+      await limiter.getLockout('user@example.com')
+    ).toBeNull()
+  })
+
+  it('unlocks the email once an admin clears the lockout', async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { ...noBackoff, maxEmailFailures: 1 }
+    )
+
+    await expect(
+      limiter.attempt('user@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+    expect(await limiter.findLockouts()).toHaveLength(1)
+
+    await limiter.clearLockout('user@example.com')
+
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.2',
+        succeed
+      )
+    ).resolves.toBe('signed in')
+  })
+
+  it("doesn't count failures other than wrong credentials", async (): Promise<
+    void
+  > => {
+    const limiter = generateLoginLimiter(
+      generateMemoryAttemptStore(),
+      { ...noBackoff, maxEmailFailures: 1 }
+    )
+    const outage = new Error('connection lost')
+
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.1',
+        async (): Promise<never> => {
+          throw outage
+        }
+      )
+    ).rejects.toBe(outage)
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.1',
+        async (): Promise<never> => {
+          throw new AccountDisabledError()
+        }
+      )
+    ).rejects.toBeInstanceOf(AccountDisabledError)
+
+    expect(
+      await limiter.getLockout('user@example.com')
+    ).toBeNull()
+
+    await expect(
+      limiter.attempt(
+        'user@example.com',
+        '10.0.0.1',
+        async (): Promise<never> => {
+          throw new InvalidCodeError()
+        }
+      )
+    ).rejects.toBeInstanceOf(InvalidCodeError)
+    expect(
+      await limiter.getLockout('user@example.com')
+    ).not.toBeNull()
+  })
+
+  it('keeps the original error when recording the failure fails', async (): Promise<
+    void
+  > => {
+    jest
+      .spyOn(console, 'error')
+      .mockImplementation((): void => undefined)
+    const store: LoginAttemptStore = {
+      ...generateMemoryAttemptStore(),
+      increment: async (): Promise<never> => {
+        throw new Error('connection lost')
+      }
+    }
+    const limiter = generateLoginLimiter(store, noBackoff)
+
+    await expect(
+      limiter.attempt('user@example.com', '10.0.0.1', fail)
+    ).rejects.toBeInstanceOf(InvalidCredentialsError)
+  })
+})
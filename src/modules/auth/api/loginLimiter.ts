@@ -0,0 +1,431 @@
+import { MongoEntity } from 'apollo-connector-mongodb'
+
+import {
+  AccountLockedError,
+  InvalidCredentialsError,
+  InvalidCodeError
+} from './errors'
+
+/**
+ * Failed sign in attempts tracked for an email or client ip
+ * @typedef LoginAttempt
+ */
+export interface LoginAttempt {
+  _id: string
+  failures: number
+  lastFailureAt: Date
+  lockedUntil: Date | null
+}
+
+/**
+ * Persists failed sign in attempts, implementations decide the storage
+ * @typedef LoginAttemptStore
+ */
+export interface LoginAttemptStore {
+  /**
+   * Looks up attempts for the given key
+   * @param key email or ip based key
+   * @returns attempts info
+   */
+  get: (key: string) => Promise<LoginAttempt | null>
+  /**
+   * Counts one more failed attempt for the given key
+   * @param key email or ip based key
+   * @param at time of the failed attempt
+   * @returns updated attempts info
+   */
+  increment: (
+    key: string,
+    at: Date
+  ) => Promise<LoginAttempt>
+  /**
+   * Blocks further attempts for the given key
+   * @param key email or ip based key
+   * @param until time after which attempts are allowed again
+   */
+  lock: (key: string, until: Date) => Promise<void>
+  /**
+   * Forgets all attempts for the given key
+   * @param key email or ip based key
+   */
+  reset: (key: string) => Promise<void>
+  /**
+   * Looks up all keys which are locked at the given time
+   * @param at time to check locks against
+   * @returns attempts info for locked keys
+   */
+  findLocked: (at: Date) => Promise<LoginAttempt[]>
+}
+
+/**
+ * Store which keeps attempts in process memory, meant for single instance setups & testing
+ * @returns in-memory attempt store
+ */
+export const generateMemoryAttemptStore = (): LoginAttemptStore => {
+  const attempts = new Map<string, LoginAttempt>()
+
+  const get = async (
+    key: string
+  ): Promise<LoginAttempt | null> =>
+    attempts.get(key) || null
+
+  const increment = async (
+    key: string,
+    at: Date
+  ): Promise<LoginAttempt> => {
+    const previous = attempts.get(key)
+    const attempt = {
+      _id: key,
+      failures: previous ? previous.failures + 1 : 1,
+      lastFailureAt: at,
+      lockedUntil: previous ? previous.lockedUntil : null
+    }
+    attempts.set(key, attempt)
+
+    return attempt
+  }
+
+  const lock = async (
+    key: string,
+    until: Date
+  ): Promise<void> => {
+    const attempt = attempts.get(key)
+    if (attempt)
+      attempts.set(key, { ...attempt, lockedUntil: until })
+  }
+
+  const reset = async (key: string): Promise<void> => {
+    attempts.delete(key)
+  }
+
+  const findLocked = async (
+    at: Date
+  ): Promise<LoginAttempt[]> =>
+    Array.from(attempts.values()).filter(
+      ({ lockedUntil }): boolean =>
+        !!lockedUntil && lockedUntil > at
+    )
+
+  return Object.freeze({
+    get,
+    increment,
+    lock,
+    reset,
+    findLocked
+  })
+}
+
+/**
+ * Store which keeps attempts in a Mongo collection, shared by all instances
+ * @param loginAttempts Collection to store attempts in
+ * @returns Mongo backed attempt store
+ */
+export const generateMongoAttemptStore = (
+  loginAttempts: MongoEntity<LoginAttempt>
+): LoginAttemptStore => {
+  const get = async (
+    key: string
+  ): Promise<LoginAttempt | null> =>
+    loginAttempts.findOne({ _id: key })
+
+  const increment = async (
+    key: string,
+    at: Date
+  ): Promise<LoginAttempt> => {
+    await loginAttempts.updateOne(
+      { _id: key },
+      {
+        $inc: { failures: 1 },
+        $set: { lastFailureAt: at },
+        $setOnInsert: { lockedUntil: null }
+      },
+      { upsert: true }
+    )
+
+    return loginAttempts.findOne({ _id: key })
+  }
+
+  const lock = async (
+    key: string,
+    until: Date
+  ): Promise<void> => {
+    await loginAttempts.updateOne(
+      { _id: key },
+      { $set: { lockedUntil: until } }
+    )
+  }
+
+  const reset = async (key: string): Promise<void> => {
+    await loginAttempts.deleteOne({ _id: key })
+  }
+
+  const findLocked = async (
+    at: Date
+  ): Promise<LoginAttempt[]> =>
+    loginAttempts
+      .find({ lockedUntil: { $gt: at } })
+      .sort({ lockedUntil: -1 })
+      .toArray()
+
+  return Object.freeze({
+    get,
+    increment,
+    lock,
+    reset,
+    findLocked
+  })
+}
+
+/**
+ * Limits applied to failed sign in attempts
+ * @typedef LoginLimiterOptions
+ */
+export interface LoginLimiterOptions {
+  /** failures per email before it gets locked */
+  maxEmailFailures: number
+  /** failures per ip before it gets locked */
+  maxIpFailures: number
+  /** delay in ms after the first failure, doubled with every failure */
+  baseDelay: number
+  /** upper bound in ms for the delay between failures */
+  maxDelay: number
+  /** time in ms for which locked keys stay locked */
+  lockDuration: number
+  /** time in ms after which old failures are forgotten */
+  failureWindow: number
+}
+
+const defaultOptions: LoginLimiterOptions = {
+  maxEmailFailures: 5,
+  maxIpFailures: 20,
+  baseDelay: 1000,
+  maxDelay: 1000 * 60,
+  lockDuration: 1000 * 60 * 15,
+  failureWindow: 1000 * 60 * 60
+}
+
+/**
+ * Throttles sign in attempts per email & client ip
+ * @typedef LoginLimiter
+ */
+export interface LoginLimiter {
+  /**
+   * Throws if attempts for the email or ip are currently blocked
+   * @param email email used for the attempt
+   * @param ip ip of the client making the attempt
+   */
+  assertNotLocked: (
+    email: string,
+    ip: string
+  ) => Promise<void>
+  /**
+   * Runs the sign in attempt, counting failures & clearing them on success
+   * @param email email used for the attempt
+   * @param ip ip of the client making the attempt
+   * @param validate fn which throws if the credentials are invalid, only those failures are counted
+   * @returns result of the validate fn
+   */
+  attempt: <T>(
+    email: string,
+    ip: string,
+    validate: () => Promise<T>
+  ) => Promise<T>
+  /**
+   * Looks up the lockout for the given email
+   * @param email email to look up
+   * @returns attempts info if the email is locked
+   */
+  getLockout: (
+    email: string
+  ) => Promise<LoginAttempt | null>
+  /**
+   * Looks up all current lockouts
+   * @returns attempts info for locked emails & ips
+   */
+  findLockouts: () => Promise<LoginAttempt[]>
+  /**
+   * Unlocks the given email
+   * @param email email to unlock
+   */
+  clearLockout: (email: string) => Promise<void>
+}
+
+/**
+ * Key used to track attempts for an email
+ * @param email email used for the attempt
+ * @returns store key
+ */
+const emailKey = (email: string): string =>
+  `email:${email.trim().toLowerCase()}`
+
+/**
+ * Key used to track attempts for a client
+ * @param ip ip of the client making the attempt
+ * @returns store key
+ */
+const ipKey = (ip: string): string => `ip:${ip}`
+
+/**
+ * Checks whether the attempt failed because of wrong credentials or codes
+ * @param error error thrown by the validate fn
+ * @returns whether the failure counts towards the limits
+ */
+const isCredentialFailure = (error: Error): boolean =>
+  error instanceof InvalidCredentialsError ||
+  error instanceof InvalidCodeError
+
+/**
+ * Generates limiter which throttles failed sign in attempts with exponential backoff
+ * @param store Store used to persist attempts
+ * @param options Limits applied to the attempts
+ * @returns login limiter
+ */
+export const generateLoginLimiter = (
+  store: LoginAttemptStore,
+  options: Partial<LoginLimiterOptions> = {}
+): LoginLimiter => {
+  const {
+    maxEmailFailures,
+    maxIpFailures,
+    baseDelay,
+    maxDelay,
+    lockDuration,
+    failureWindow
+  } = { ...defaultOptions, ...options }
+
+  /**
+   * Computes until when the key is blocked
+   * @param attempt attempts info for the key
+   * @returns time until which attempts are blocked, if blocked at all
+   */
+  const blockedUntil = (
+    attempt: LoginAttempt
+  ): Date | null => {
+    if (attempt.lockedUntil) return attempt.lockedUntil
+
+    const delay = Math.min(
+      baseDelay * 2 ** (attempt.failures - 1),
+      maxDelay
+    )
+
+    return new Date(attempt.lastFailureAt.getTime() + delay)
+  }
+
+  /**
+   * Looks up attempts for the key, forgetting the ones which no longer count
+   * @param key store key
+   * @param now current time
+   * @returns attempts info which still counts
+   */
+  const getCurrent = async (
+    key: string,
+    now: Date
+  ): Promise<LoginAttempt | null> => {
+    const attempt = await store.get(key)
+    if (!attempt) return null
+
+    const expired = attempt.lockedUntil
+      ? attempt.lockedUntil <= now
+      : now.getTime() - attempt.lastFailureAt.getTime() >
+        failureWindow
+
+    if (expired) {
+      await store.reset(key)
+      return null
+    }
+
+    return attempt
+  }
+
+  const assertNotLocked = async (
+    email: string,
+    ip: string
+  ): Promise<void> => {
+    const now = new Date()
+
+    for (const key of [emailKey(email), ipKey(ip)]) {
+      const attempt = await getCurrent(key, now)
+      const until = attempt && blockedUntil(attempt)
+
+      if (until && until > now)
+        throw new AccountLockedError(until)
+    }
+  }
+
+  /**
+   * Counts the failure & locks the key once it hits its limit
+   * @param key store key
+   * @param maxFailures failures allowed before locking
+   */
+  const recordFailure = async (
+    key: string,
+    maxFailures: number
+  ): Promise<void> => {
+    const now = new Date()
+    const { failures } = await store.increment(key, now)
+
+    if (failures >= maxFailures)
+      await store.lock(
+        key,
+        new Date(now.getTime() + lockDuration)
+      )
+  }
+
+  const attempt = async <T>(
+    email: string,
+    ip: string,
+    validate: () => Promise<T>
+  ): Promise<T> => {
+    await assertNotLocked(email, ip)
+
+    try {
+      const result = await validate()
+      await store.reset(emailKey(email))
+
+      return result
+    } catch (e) {
+      // outages & disabled accounts mustn't lock out users
+      if (!isCredentialFailure(e)) throw e
+
+      try {
+        await recordFailure(
+          emailKey(email),
+          maxEmailFailures
+        )
+        await recordFailure(ipKey(ip), maxIpFailures)
+      } catch (recordError) {
+        console.error(
+          'Failed to record sign in failure',
+          recordError
+        )
+      }
+
+      throw e
+    }
+  }
+
+  const getLockout = async (
+    email: string
+  ): Promise<LoginAttempt | null> => {
+    const attempt = await getCurrent(
+      emailKey(email),
+      new Date()
+    )
+
+    return attempt && attempt.lockedUntil ? attempt : null
+  }
+
+  const findLockouts = (): Promise<LoginAttempt[]> =>
+    store.findLocked(new Date())
+
+  const clearLockout = (email: string): Promise<void> =>
+    store.reset(emailKey(email))
+
+  return Object.freeze({
+    assertNotLocked,
+    attempt,
+    getLockout,
+    findLockouts,
+    clearLockout
+  })
+}
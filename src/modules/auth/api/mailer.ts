@@ -0,0 +1,63 @@
+import { writeFile, mkdir } from 'fs'
+import { join } from 'path'
+import { promisify } from 'util'
+import { randomBytes } from 'crypto'
+
+const writeFileAsync = promisify(writeFile)
+const mkdirAsync = promisify(mkdir)
+
+/**
+ * Email sent out by the auth module
+ * @typedef MailMessage
+ */
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Delivers emails to users, implementations decide the transport
+ * @typedef Mailer
+ */
+export interface Mailer {
+  /**
+   * Sends out the given message
+   * @param message message to deliver
+   */
+  send: (message: MailMessage) => Promise<void>
+}
+
+/**
+ * Mailer which writes every message as a JSON file into an outbox directory
+ * @param dir Directory to write the messages into
+ * @returns Mailer backed by the outbox directory
+ */
+export const generateOutboxMailer = (
+  dir: string
+): Mailer => {
+  /**
+   * Writes the message into the outbox
+   * @param message message to deliver
+   */
+  const send = async (
+    message: MailMessage
+  ): Promise<void> => {
+    await mkdirAsync(dir, { recursive: true })
+
+    const fileName = `${Date.now()}-${randomBytes(
+      4
+    ).toString('hex')}.json`
+
+    await writeFileAsync(
+      join(dir, fileName),
+      JSON.stringify(
+        { ...message, sentAt: new Date().toISOString() },
+        null,
+        2
+      )
+    )
+  }
+
+  return Object.freeze({ send })
+}
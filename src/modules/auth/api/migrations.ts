@@ -0,0 +1,64 @@
+import { Migration } from '@nextq/registry/api'
+
+import { EMAIL_COLLATION } from './models'
+
+/**
+ * Generates the migrations of the auth module
+ * @param database connection the auth collections live in
+ * @returns migrations to register with the module
+ */
+export const generateAuthMigrations = (
+  database: string
+): Migration[] => [
+  {
+    version: '001-unique-user-email',
+    description:
+      'Unique index on users.email, ignoring case',
+    // fails while duplicates exist, they have to be merged by hand first
+    up: async (getDatabase): Promise<void> => {
+      await getDatabase(database)
+        .collection('users')
+        .createIndex(
+          { email: 1 },
+          {
+            name: 'email_unique',
+            unique: true,
+            collation: EMAIL_COLLATION
+          }
+        )
+    },
+    down: async (getDatabase): Promise<void> => {
+      await getDatabase(database)
+        .collection('users')
+        .dropIndex('email_unique')
+    }
+  },
+  {
+    version: '002-audit-log-indexes',
+    description:
+      'TTL index on securityEvents.expiresAt & index for listing events per user',
+    // events recorded before expiresAt existed are kept until removed by hand
+    up: async (getDatabase): Promise<void> => {
+      const events = getDatabase(database).collection(
+        'securityEvents'
+      )
+
+      await events.createIndex(
+        { expiresAt: 1 },
+        { name: 'expires_ttl', expireAfterSeconds: 0 }
+      )
+      await events.createIndex(
+        { userId: 1, _id: -1 },
+        { name: 'user_events' }
+      )
+    },
+    down: async (getDatabase): Promise<void> => {
+      const events = getDatabase(database).collection(
+        'securityEvents'
+      )
+
+      await events.dropIndex('expires_ttl')
+      await events.dropIndex('user_events')
+    }
+  }
+]
@@ -1,12 +1,77 @@
 import { MongoEntity } from 'apollo-connector-mongodb'
-import { hash } from 'bcryptjs'
-import { ObjectID } from 'mongodb'
+import { hash, compare, getRounds } from 'bcryptjs'
+import { ObjectID, FilterQuery } from 'mongodb'
+import { randomBytes } from 'crypto'
+import DataLoader from 'dataloader'
+
+import { generateByIdLoader } from '@nextq/loaders/api'
+
+import { EmailTakenError } from './errors'
+
+/**
+ * Compares emails ignoring case, used by the unique email index & lookups so they use it
+ */
+export const EMAIL_COLLATION = { locale: 'en', strength: 2 }
+
+/**
+ * Turns the duplicate key error of the unique email index into a user facing error
+ * @param error error thrown when inserting the user
+ * @returns rethrows the error
+ */
+const rethrowDuplicateEmail = (
+  error: Error & { code?: number }
+): never => {
+  if (error.code === 11000) throw new EmailTakenError()
+
+  throw error
+}
+
+/**
+ * Hashed single-use token awaiting to be consumed
+ * @typedef PendingToken
+ */
+export interface PendingToken {
+  tokenHash: string
+  expiresAt: Date
+}
+
+/**
+ * Account at an external OpenID Connect provider linked to the user
+ * @typedef LinkedIdentity
+ */
+export interface LinkedIdentity {
+  provider: string
+  subject: string
+  linkedAt: Date
+}
+
+/**
+ * TOTP authenticator set up by the user
+ * @typedef TotpSettings
+ */
+export interface TotpSettings {
+  secret: string
+  enabled: boolean
+  /** last time step a code was accepted for, so codes can't be replayed */
+  lastUsedStep: number
+}
 
 export interface User {
   _id: ObjectID
   email: string
   passwordHash: string
   count: number
+  emailVerified: boolean
+  emailVerifiedAt: Date | null
+  /** names of the roles granted to the user, e.g. `admin` */
+  roles?: string[]
+  /** set when an admin disabled the account */
+  disabledAt?: Date | null
+  identities?: LinkedIdentity[]
+  totp?: TotpSettings | null
+  recoveryCodeHashes?: string[]
+  passwordReset?: PendingToken | null
+  emailVerification?: PendingToken | null
 }
 
 interface FindUserSelectors {
@@ -14,6 +79,58 @@ interface FindUserSelectors {
   id?: ObjectID
 }
 
+/**
+ * Options for listing users page by page
+ * @typedef FindUsersOptions
+ */
+export interface FindUsersOptions {
+  /** part of the email to search for, case insensitive */
+  search?: string
+  /** id of the last user of the previous page */
+  after?: string
+  /** max number of users in the page */
+  first: number
+  /** `ASC` lists oldest users first, `DESC` newest first */
+  order: 'ASC' | 'DESC'
+}
+
+/**
+ * Page of users along with whether more follow it
+ * @typedef UserPage
+ */
+export interface UserPage {
+  users: User[]
+  hasNextPage: boolean
+}
+
+export const DEFAULT_HASH_COST = 10
+
+// one per cost, so unknown emails take as long to reject as wrong passwords
+const dummyPasswordHashes = new Map<
+  number,
+  Promise<string>
+>()
+
+/**
+ * Hashes a random password once per cost, call it at startup so no sign in waits for it
+ * @param hashCost bcrypt cost used to hash passwords
+ * @returns hash no password matches
+ */
+export const getDummyPasswordHash = (
+  hashCost: number
+): Promise<string> => {
+  const cached = dummyPasswordHashes.get(hashCost)
+  if (cached) return cached
+
+  const dummy = hash(
+    randomBytes(16).toString('hex'),
+    hashCost
+  )
+  dummyPasswordHashes.set(hashCost, dummy)
+
+  return dummy
+}
+
 export interface UserModel {
   /**
    * Looks up whether user exists with the given email
@@ -41,6 +158,14 @@ export interface UserModel {
   findUser: (
     selectors: FindUserSelectors
   ) => Promise<User | null>
+  /**
+   * Lists users by creation date, page by page
+   * @param options search, cursor & page size
+   * @returns page of users
+   */
+  findUsers: (
+    options: FindUsersOptions
+  ) => Promise<UserPage>
   /**
    * Creates new user and enters it into DB
    * @param email new user's email
@@ -52,7 +177,151 @@ export interface UserModel {
     password: string
   ) => Promise<User>
   /**
-   * Updates user with given data
+   * Looks up user with an identity linked from an external provider
+   * @param provider name of the provider
+   * @param subject id of the user at the provider
+   * @returns user info
+   */
+  findUserByIdentity: (
+    provider: string,
+    subject: string
+  ) => Promise<User | null>
+  /**
+   * Creates new user without a password for an external provider's identity
+   * @param email new user's email
+   * @param identity identity at the provider to link
+   * @param emailVerified whether the provider verified the email
+   * @returns user info
+   */
+  createNewIdentityUser: (
+    email: string,
+    identity: LinkedIdentity,
+    emailVerified: boolean
+  ) => Promise<User>
+  /**
+   * Links an external provider's identity to the user
+   * @param id user id to find user
+   * @param identity identity at the provider to link
+   * @returns whether update was successful
+   */
+  linkIdentity: (
+    id: string,
+    identity: LinkedIdentity
+  ) => Promise<boolean>
+  /**
+   * Stores new TOTP secret which is used once the user confirms it
+   * @param id user id to find user
+   * @param secret base32 encoded TOTP secret
+   * @returns whether update was successful
+   */
+  setPendingTotpSecret: (
+    id: string,
+    secret: string
+  ) => Promise<boolean>
+  /**
+   * Turns on 2FA with the pending secret
+   * @param id user id to find user
+   * @param step time step of the code used to confirm the secret
+   * @param recoveryCodeHashes hashes of the new recovery codes
+   * @returns whether update was successful
+   */
+  enableTotp: (
+    id: string,
+    step: number,
+    recoveryCodeHashes: string[]
+  ) => Promise<boolean>
+  /**
+   * Turns off 2FA & removes the secret and recovery codes
+   * @param id user id to find user
+   * @returns whether update was successful
+   */
+  disableTotp: (id: string) => Promise<boolean>
+  /**
+   * Replaces the user's recovery codes
+   * @param id user id to find user
+   * @param recoveryCodeHashes hashes of the new recovery codes
+   * @returns whether update was successful
+   */
+  setRecoveryCodes: (
+    id: string,
+    recoveryCodeHashes: string[]
+  ) => Promise<boolean>
+  /**
+   * Marks the TOTP time step as used if no later one was used yet
+   * @param id user id to find user
+   * @param step time step of the entered code
+   * @returns whether the code can be accepted
+   */
+  useTotpStep: (
+    id: string,
+    step: number
+  ) => Promise<boolean>
+  /**
+   * Removes the recovery code so it can't be used again
+   * @param id user id to find user
+   * @param codeHash hash of the entered recovery code
+   * @returns whether the code existed
+   */
+  useRecoveryCode: (
+    id: string,
+    codeHash: string
+  ) => Promise<boolean>
+  /**
+   * Grants role to the user
+   * @param id user id to find user
+   * @param role name of the role to grant
+   * @returns whether the user didn't have the role already
+   */
+  addRole: (id: string, role: string) => Promise<boolean>
+  /**
+   * Takes role away from the user
+   * @param id user id to find user
+   * @param role name of the role to take away
+   * @returns whether the user had the role
+   */
+  removeRole: (id: string, role: string) => Promise<boolean>
+  /**
+   * Disables or re-enables the user's account
+   * @param id user id to find user
+   * @param disabled whether the account should be disabled
+   * @returns whether update was successful
+   */
+  setDisabled: (
+    id: string,
+    disabled: boolean
+  ) => Promise<boolean>
+  /**
+   * Sets new password for the user & bumps `count`
+   * @param id user id to find user
+   * @param password new password for the user
+   * @returns whether update was successful
+   */
+  setPassword: (
+    id: string,
+    password: string
+  ) => Promise<boolean>
+  /**
+   * Re-hashes the password if it was hashed with a lower cost than the configured one
+   * @param user user info from DB
+   * @param password password the user just signed in with
+   * @returns whether the hash was upgraded
+   */
+  rehashPasswordIfNeeded: (
+    user: User,
+    password: string
+  ) => Promise<boolean>
+  /**
+   * Checks the password, unknown users & users without one are checked against a dummy hash
+   * @param user user info from DB, `null` for unknown emails
+   * @param password password to check
+   * @returns whether it's the user's password
+   */
+  verifyPassword: (
+    user: User | null,
+    password: string
+  ) => Promise<boolean>
+  /**
+   * Updates user with given data, later lookups see the update
    * @param id user id to find user
    * @param data data to update the found user with
    * @returns whether update was successful
@@ -61,11 +330,73 @@ export interface UserModel {
     _id: string,
     data: Record<string, any>
   ) => Promise<boolean>
+  /**
+   * Stores a password reset token for the user, replacing any previous one
+   * @param id user id to find user
+   * @param tokenHash hash of the reset token sent to the user
+   * @param expiresAt time after which the token can't be used
+   * @returns whether the token was stored
+   */
+  setPasswordResetToken: (
+    id: string,
+    tokenHash: string,
+    expiresAt: Date
+  ) => Promise<boolean>
+  /**
+   * Consumes a valid reset token, sets the new password & bumps `count`
+   * @param tokenHash hash of the reset token sent to the user
+   * @param password new password for the user
+   * @returns user info if the token was valid
+   */
+  resetPasswordWithToken: (
+    tokenHash: string,
+    password: string
+  ) => Promise<User | null>
+  /**
+   * Stores an email verification token for the user, replacing any previous one
+   * @param id user id to find user
+   * @param tokenHash hash of the verification token sent to the user
+   * @param expiresAt time after which the token can't be used
+   * @returns whether the token was stored
+   */
+  setEmailVerificationToken: (
+    id: string,
+    tokenHash: string,
+    expiresAt: Date
+  ) => Promise<boolean>
+  /**
+   * Consumes a valid verification token & marks the user's email as verified
+   * @param tokenHash hash of the verification token sent to the user
+   * @returns user info if the token was valid
+   */
+  verifyEmailWithToken: (
+    tokenHash: string
+  ) => Promise<User | null>
 }
 
+/**
+ * Generates model for the users collection
+ * @param users Users collection
+ * @param hashCost bcrypt cost used to hash passwords
+ * @param loader batches & caches lookups by id, generate the model per request to keep it fresh
+ * @returns users model
+ */
 export const generateUserModel = (
-  users: MongoEntity<User>
+  users: MongoEntity<User>,
+  hashCost: number = DEFAULT_HASH_COST,
+  loader: DataLoader<
+    string,
+    User | null
+  > = generateByIdLoader(users)
 ): UserModel => {
+  /**
+   * Drops the user from the loader so the next lookup sees the update
+   * @param id id of the updated user
+   */
+  const forget = (id: string | ObjectID): void => {
+    loader.clear(id.toString())
+  }
+
   /**
    * Looks up user using email
    * @param email Email to find user with
@@ -73,7 +404,8 @@ export const generateUserModel = (
    */
   const findUserByEmail = async (
     email: string
-  ): Promise<User | null> => users.findOne({ email })
+  ): Promise<User | null> =>
+    users.findOne({ email }, { collation: EMAIL_COLLATION })
 
   /**
    * Looks up user with id
@@ -82,8 +414,7 @@ export const generateUserModel = (
    */
   const findUserById = async (
     id: string
-  ): Promise<User | null> =>
-    users.findOne({ _id: new ObjectID(id) })
+  ): Promise<User | null> => loader.load(id)
 
   /**
    * Finds users using the given info
@@ -98,6 +429,47 @@ export const generateUserModel = (
       ? findUserById(id.toHexString())
       : findUserByEmail(email)
 
+  /**
+   * Lists users by creation date, page by page
+   * @param param0 search, cursor & page size
+   * @returns page of users
+   */
+  const findUsers = async ({
+    search,
+    after,
+    first,
+    order
+  }: FindUsersOptions): Promise<UserPage> => {
+    const selector: FilterQuery<User> = {}
+    if (search)
+      selector.email = {
+        $regex: search.replace(
+          /[.*+?^${}()|[\]\\]/g,
+          '\\$&'
+        ),
+        $options: 'i'
+      }
+    // ids grow with creation time so they double as the cursor
+    if (after)
+      selector._id = {
+        [order === 'ASC' ? '$gt' : '$lt']: new ObjectID(
+          after
+        )
+      }
+
+    // fetches one extra user to tell whether another page follows
+    const found = await users
+      .find(selector)
+      .sort({ _id: order === 'ASC' ? 1 : -1 })
+      .limit(first + 1)
+      .toArray()
+
+    return {
+      users: found.slice(0, first),
+      hasNextPage: found.length > first
+    }
+  }
+
   /**
    * Looks up whether user exists with the given email
    * @param email
@@ -119,10 +491,16 @@ export const generateUserModel = (
     const doc = {
       _id: new ObjectID(),
       email,
-      passwordHash: await hash(password, 10),
-      count: 0
+      passwordHash: await hash(password, hashCost),
+      count: 0,
+      emailVerified: false,
+      emailVerifiedAt: null,
+      roles: []
     }
-    const { insertedId } = await users.insertOne(doc)
+    // the unique index catches sign ups racing past the isUser check
+    const { insertedId } = await users
+      .insertOne(doc)
+      .catch(rethrowDuplicateEmail)
 
     return {
       ...doc,
@@ -131,7 +509,74 @@ export const generateUserModel = (
   }
 
   /**
-   * Updates user with given data
+   * Looks up user with an identity linked from an external provider
+   * @param provider name of the provider
+   * @param subject id of the user at the provider
+   * @returns user info
+   */
+  const findUserByIdentity = async (
+    provider: string,
+    subject: string
+  ): Promise<User | null> =>
+    users.findOne({
+      identities: { $elemMatch: { provider, subject } }
+    })
+
+  /**
+   * Creates new user without a password for an external provider's identity
+   * @param email new user's email
+   * @param identity identity at the provider to link
+   * @param emailVerified whether the provider verified the email
+   * @returns user info
+   */
+  const createNewIdentityUser = async (
+    email: string,
+    identity: LinkedIdentity,
+    emailVerified: boolean
+  ): Promise<User> => {
+    const doc = {
+      _id: new ObjectID(),
+      email,
+      // empty hash never matches so password sign in stays disabled
+      passwordHash: '',
+      count: 0,
+      emailVerified,
+      emailVerifiedAt: emailVerified ? new Date() : null,
+      roles: [],
+      identities: [identity]
+    }
+    // the unique index catches sign ups racing past the isUser check
+    const { insertedId } = await users
+      .insertOne(doc)
+      .catch(rethrowDuplicateEmail)
+
+    return {
+      ...doc,
+      _id: insertedId
+    }
+  }
+
+  /**
+   * Links an external provider's identity to the user
+   * @param id user id to find user
+   * @param identity identity at the provider to link
+   * @returns whether update was successful
+   */
+  const linkIdentity = async (
+    id: string,
+    identity: LinkedIdentity
+  ): Promise<boolean> => {
+    const { modifiedCount } = await users.updateOne(
+      { _id: new ObjectID(id) },
+      { $push: { identities: identity } }
+    )
+    forget(id)
+
+    return modifiedCount === 1
+  }
+
+  /**
+   * Updates user with given data, later lookups see the update
    * @param id user id to find user
    * @param data data to update the found user with
    */
@@ -143,16 +588,861 @@ export const generateUserModel = (
       { _id: new ObjectID(id) },
       data
     )
+    forget(id)
+
+    return modifiedCount === 1
+  }
+
+  /**
+   * Grants role to the user
+   * @param id user id to find user
+   * @param role name of the role to grant
+   * @returns whether the user didn't have the role already
+   */
+  const addRole = async (
+    id: string,
+    role: string
+  ): Promise<boolean> =>
+    updateUser(id, { $addToSet: { roles: role } })
+
+  /**
+   * Takes role away from the user
+   * @param id user id to find user
+   * @param role name of the role to take away
+   * @returns whether the user had the role
+   */
+  const removeRole = async (
+    id: string,
+    role: string
+  ): Promise<boolean> =>
+    updateUser(id, { $pull: { roles: role } })
+
+  /**
+   * Disables or re-enables the user's account
+   * @param id user id to find user
+   * @param disabled whether the account should be disabled
+   * @returns whether update was successful
+   */
+  const setDisabled = async (
+    id: string,
+    disabled: boolean
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $set: { disabledAt: disabled ? new Date() : null }
+    })
+
+  /**
+   * Sets new password for the user & bumps `count`
+   * @param id user id to find user
+   * @param password new password for the user
+   * @returns whether update was successful
+   */
+  const setPassword = async (
+    id: string,
+    password: string
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $set: {
+        passwordHash: await hash(password, hashCost)
+      },
+      $inc: { count: 1 }
+    })
+
+  /**
+   * Re-hashes the password if it was hashed with a lower cost than the configured one
+   * @param user user info from DB
+   * @param password password the user just signed in with
+   * @returns whether the hash was upgraded
+   */
+  const rehashPasswordIfNeeded = async (
+    { _id, passwordHash }: User,
+    password: string
+  ): Promise<boolean> => {
+    if (
+      !passwordHash ||
+      getRounds(passwordHash) >= hashCost
+    )
+      return false
+
+    // keeps a password changed meanwhile from being overwritten
+    const { modifiedCount } = await users.updateOne(
+      { _id, passwordHash },
+      {
+        $set: {
+          passwordHash: await hash(password, hashCost)
+        }
+      }
+    )
+    forget(_id)
+
+    return modifiedCount === 1
+  }
+
+  /**
+   * Checks the password, unknown users & users without one are checked against a dummy hash
+   * @param user user info from DB, `null` for unknown emails
+   * @param password password to check
+   * @returns whether it's the user's password
+   */
+  const verifyPassword = async (
+    user: User | null,
+    password: string
+  ): Promise<boolean> => {
+    const passwordHash = user && user.passwordHash
+
+    // takes as long without a hash so it doesn't reveal which emails exist
+    const valid = await compare(
+      password,
+      passwordHash || (await getDummyPasswordHash(hashCost))
+    )
+
+    return !!passwordHash && valid
+  }
+
+  /**
+   * Stores new TOTP secret which is used once the user confirms it
+   * @param id user id to find user
+   * @param secret base32 encoded TOTP secret
+   * @returns whether update was successful
+   */
+  const setPendingTotpSecret = async (
+    id: string,
+    secret: string
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $set: {
+        totp: { secret, enabled: false, lastUsedStep: 0 }
+      }
+    })
+
+  /**
+   * Turns on 2FA with the pending secret
+   * @param id user id to find user
+   * @param step time step of the code used to confirm the secret
+   * @param recoveryCodeHashes hashes of the new recovery codes
+   * @returns whether update was successful
+   */
+  const enableTotp = async (
+    id: string,
+    step: number,
+    recoveryCodeHashes: string[]
+  ): Promise<boolean> => {
+    const { modifiedCount } = await users.updateOne(
+      { _id: new ObjectID(id), 'totp.enabled': false },
+      {
+        $set: {
+          'totp.enabled': true,
+          'totp.lastUsedStep': step,
+          recoveryCodeHashes
+        }
+      }
+    )
+    forget(id)
+
+    return modifiedCount === 1
+  }
+
+  /**
+   * Turns off 2FA & removes the secret and recovery codes
+   * @param id user id to find user
+   * @returns whether update was successful
+   */
+  const disableTotp = async (
+    id: string
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $unset: { totp: '', recoveryCodeHashes: '' }
+    })
+
+  /**
+   * Replaces the user's recovery codes
+   * @param id user id to find user
+   * @param recoveryCodeHashes hashes of the new recovery codes
+   * @returns whether update was successful
+   */
+  const setRecoveryCodes = async (
+    id: string,
+    recoveryCodeHashes: string[]
+  ): Promise<boolean> =>
+    updateUser(id, { $set: { recoveryCodeHashes } })
+
+  /**
+   * Marks the TOTP time step as used if no later one was used yet
+   * @param id user id to find user
+   * @param step time step of the entered code
+   * @returns whether the code can be accepted
+   */
+  const useTotpStep = async (
+    id: string,
+    step: number
+  ): Promise<boolean> => {
+    const { modifiedCount } = await users.updateOne(
+      {
+        _id: new ObjectID(id),
+        'totp.enabled': true,
+        'totp.lastUsedStep': { $lt: step }
+      },
+      { $set: { 'totp.lastUsedStep': step } }
+    )
+    forget(id)
 
     return modifiedCount === 1
   }
 
+  /**
+   * Removes the recovery code so it can't be used again
+   * @param id user id to find user
+   * @param codeHash hash of the entered recovery code
+   * @returns whether the code existed
+   */
+  const useRecoveryCode = async (
+    id: string,
+    codeHash: string
+  ): Promise<boolean> => {
+    const { modifiedCount } = await users.updateOne(
+      {
+        _id: new ObjectID(id),
+        recoveryCodeHashes: codeHash
+      },
+      { $pull: { recoveryCodeHashes: codeHash } }
+    )
+    forget(id)
+
+    return modifiedCount === 1
+  }
+
+  /**
+   * Stores a password reset token for the user, replacing any previous one
+   * @param id user id to find user
+   * @param tokenHash hash of the reset token sent to the user
+   * @param expiresAt time after which the token can't be used
+   * @returns whether the token was stored
+   */
+  const setPasswordResetToken = async (
+    id: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $set: { passwordReset: { tokenHash, expiresAt } }
+    })
+
+  /**
+   * Consumes a valid reset token, sets the new password & bumps `count`
+   * @param tokenHash hash of the reset token sent to the user
+   * @param password new password for the user
+   * @returns user info if the token was valid
+   */
+  const resetPasswordWithToken = async (
+    tokenHash: string,
+    password: string
+  ): Promise<User | null> => {
+    const selector = {
+      'passwordReset.tokenHash': tokenHash,
+      'passwordReset.expiresAt': { $gt: new Date() }
+    }
+    const user = await users.findOne(selector)
+    if (!user) return null
+
+    // token is part of the selector so only one request can consume it
+    const { modifiedCount } = await users.updateOne(
+      { ...selector, _id: user._id },
+      {
+        $set: {
+          passwordHash: await hash(password, hashCost)
+        },
+        $unset: { passwordReset: '' },
+        $inc: { count: 1 }
+      }
+    )
+    forget(user._id)
+
+    return modifiedCount === 1 ? user : null
+  }
+
+  /**
+   * Stores an email verification token for the user, replacing any previous one
+   * @param id user id to find user
+   * @param tokenHash hash of the verification token sent to the user
+   * @param expiresAt time after which the token can't be used
+   * @returns whether the token was stored
+   */
+  const setEmailVerificationToken = async (
+    id: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<boolean> =>
+    updateUser(id, {
+      $set: { emailVerification: { tokenHash, expiresAt } }
+    })
+
+  /**
+   * Consumes a valid verification token & marks the user's email as verified
+   * @param tokenHash hash of the verification token sent to the user
+   * @returns user info if the token was valid
+   */
+  const verifyEmailWithToken = async (
+    tokenHash: string
+  ): Promise<User | null> => {
+    const selector = {
+      'emailVerification.tokenHash': tokenHash,
+      'emailVerification.expiresAt': { $gt: new Date() }
+    }
+    const user = await users.findOne(selector)
+    if (!user) return null
+
+    const emailVerifiedAt = new Date()
+    const { modifiedCount } = await users.updateOne(
+      { ...selector, _id: user._id },
+      {
+        $set: { emailVerified: true, emailVerifiedAt },
+        $unset: { emailVerification: '' }
+      }
+    )
+    forget(user._id)
+
+    return modifiedCount === 1
+      ? { ...user, emailVerified: true, emailVerifiedAt }
+      : null
+  }
+
   return Object.freeze({
     isUser,
     findUser,
     findUserByEmail,
     findUserById,
+    findUsers,
     createNewUser,
-    updateUser
+    findUserByIdentity,
+    createNewIdentityUser,
+    linkIdentity,
+    setPendingTotpSecret,
+    enableTotp,
+    disableTotp,
+    setRecoveryCodes,
+    useTotpStep,
+    useRecoveryCode,
+    addRole,
+    removeRole,
+    setDisabled,
+    setPassword,
+    rehashPasswordIfNeeded,
+    verifyPassword,
+    updateUser,
+    setPasswordResetToken,
+    resetPasswordWithToken,
+    setEmailVerificationToken,
+    verifyEmailWithToken
   })
 }
+
+export interface Session {
+  _id: ObjectID
+  userId: ObjectID
+  userAgent: string
+  ip: string
+  createdAt: Date
+  lastUsedAt: Date
+  revokedAt: Date | null
+  refreshTokenId: string
+  /** id the current one replaced, still accepted within the grace period */
+  previousRefreshTokenId: string | null
+  rotatedAt: Date | null
+}
+
+export interface SessionModel {
+  /**
+   * Creates new session for the user's device and enters it into DB
+   * @param userId id of the user signing in
+   * @param device user agent & ip of the user's device
+   * @returns session info
+   */
+  createSession: (
+    userId: string,
+    device: { userAgent: string; ip: string }
+  ) => Promise<Session>
+  /**
+   * Looks up session which belongs to the user & hasn't been revoked
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @returns session info
+   */
+  findActiveSession: (
+    id: string,
+    userId: string
+  ) => Promise<Session | null>
+  /**
+   * Looks up all the sessions of the user which haven't been revoked
+   * @param userId id of the user who owns the sessions
+   * @returns sessions info, most recently used first
+   */
+  findUserSessions: (userId: string) => Promise<Session[]>
+  /**
+   * Replaces the session's current refresh token id with a new one & marks it as used.
+   * The token it replaced gets the same id back within the grace period
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @param refreshTokenId id of the refresh token being used
+   * @returns id for the next refresh token, `null` if the given one was already rotated
+   */
+  rotateRefreshToken: (
+    id: string,
+    userId: string,
+    refreshTokenId: string
+  ) => Promise<string | null>
+  /**
+   * Revokes the user's session so its tokens stop working
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @returns whether the session was revoked
+   */
+  revokeSession: (
+    id: string,
+    userId: string
+  ) => Promise<boolean>
+  /**
+   * Revokes all sessions of the user
+   * @param userId id of the user who owns the sessions
+   * @param exceptId id of a session to keep active
+   * @returns number of revoked sessions
+   */
+  revokeUserSessions: (
+    userId: string,
+    exceptId?: string
+  ) => Promise<number>
+}
+
+/**
+ * Sessions revoked at once, either one or all of the user's
+ * @typedef SessionRevokedEvent
+ */
+export interface SessionRevokedEvent {
+  userId: string
+  /** set when only this session was revoked */
+  sessionId: string | null
+  /** session kept active when all of the user's were revoked */
+  exceptSessionId: string | null
+}
+
+/**
+ * Checks whether the session is one of the revoked ones
+ * @param event revoked sessions
+ * @param id session to check
+ * @returns whether it was revoked
+ */
+export const isSessionRevoked = (
+  { sessionId, exceptSessionId }: SessionRevokedEvent,
+  id: string
+): boolean =>
+  sessionId ? sessionId === id : exceptSessionId !== id
+
+/**
+ * Generates random id to tell refresh tokens of a session apart
+ * @returns refresh token id
+ */
+const generateRefreshTokenId = (): string =>
+  randomBytes(16).toString('hex')
+
+// parallel requests of a page may all refresh the same expired access token
+export const DEFAULT_REFRESH_REUSE_GRACE = 30
+
+/**
+ * Generates the session model
+ * @param sessions sessions collection
+ * @param onRevoked called after sessions were revoked, e.g. to notify their devices
+ * @param reuseGrace seconds the replaced refresh token is still exchanged for the current one
+ * @returns session model
+ */
+export const generateSessionModel = (
+  sessions: MongoEntity<Session>,
+  onRevoked: (
+    event: SessionRevokedEvent
+  ) => Promise<void> = async (): Promise<void> => undefined,
+  reuseGrace: number = DEFAULT_REFRESH_REUSE_GRACE
+): SessionModel => {
+  /**
+   * Creates new session for the user's device and enters it into DB
+   * @param userId id of the user signing in
+   * @param device user agent & ip of the user's device
+   * @returns session info
+   */
+  const createSession = async (
+    userId: string,
+    { userAgent, ip }: { userAgent: string; ip: string }
+  ): Promise<Session> => {
+    const now = new Date()
+    const doc = {
+      _id: new ObjectID(),
+      userId: new ObjectID(userId),
+      userAgent,
+      ip,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+      refreshTokenId: generateRefreshTokenId(),
+      previousRefreshTokenId: null,
+      rotatedAt: null
+    }
+    const { insertedId } = await sessions.insertOne(doc)
+
+    return {
+      ...doc,
+      _id: insertedId
+    }
+  }
+
+  /**
+   * Looks up session which belongs to the user & hasn't been revoked
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @returns session info
+   */
+  const findActiveSession = async (
+    id: string,
+    userId: string
+  ): Promise<Session | null> =>
+    ObjectID.isValid(id)
+      ? sessions.findOne({
+          _id: new ObjectID(id),
+          userId: new ObjectID(userId),
+          revokedAt: null
+        })
+      : null
+
+  /**
+   * Looks up all the sessions of the user which haven't been revoked
+   * @param userId id of the user who owns the sessions
+   * @returns sessions info, most recently used first
+   */
+  const findUserSessions = async (
+    userId: string
+  ): Promise<Session[]> =>
+    sessions
+      .find({
+        userId: new ObjectID(userId),
+        revokedAt: null
+      })
+      .sort({ lastUsedAt: -1 })
+      .toArray()
+
+  /**
+   * Replaces the session's current refresh token id with a new one & marks it as used.
+   * The token it replaced gets the same id back within the grace period
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @param refreshTokenId id of the refresh token being used
+   * @returns id for the next refresh token, `null` if the given one was already rotated
+   */
+  const rotateRefreshToken = async (
+    id: string,
+    userId: string,
+    refreshTokenId: string
+  ): Promise<string | null> => {
+    if (!ObjectID.isValid(id)) return null
+
+    const now = new Date()
+    const nextTokenId = generateRefreshTokenId()
+    // current token id is part of the selector so a token can only be rotated once
+    const { modifiedCount } = await sessions.updateOne(
+      {
+        _id: new ObjectID(id),
+        userId: new ObjectID(userId),
+        revokedAt: null,
+        refreshTokenId
+      },
+      {
+        $set: {
+          refreshTokenId: nextTokenId,
+          previousRefreshTokenId: refreshTokenId,
+          rotatedAt: now,
+          lastUsedAt: now
+        }
+      }
+    )
+    if (modifiedCount === 1) return nextTokenId
+
+    // requests sent alongside the one which rotated it get its successor
+    const rotated = await sessions.findOne({
+      _id: new ObjectID(id),
+      userId: new ObjectID(userId),
+      revokedAt: null,
+      previousRefreshTokenId: refreshTokenId,
+      rotatedAt: {
+        $gte: new Date(now.getTime() - reuseGrace * 1000)
+      }
+    })
+
+    return rotated ? rotated.refreshTokenId : null
+  }
+
+  /**
+   * Revokes the user's session so its tokens stop working
+   * @param id Id to find session with
+   * @param userId id of the user who owns the session
+   * @returns whether the session was revoked
+   */
+  const revokeSession = async (
+    id: string,
+    userId: string
+  ): Promise<boolean> => {
+    if (!ObjectID.isValid(id)) return false
+
+    const { modifiedCount } = await sessions.updateOne(
+      {
+        _id: new ObjectID(id),
+        userId: new ObjectID(userId),
+        revokedAt: null
+      },
+      { $set: { revokedAt: new Date() } }
+    )
+    if (modifiedCount !== 1) return false
+
+    await onRevoked({
+      userId,
+      sessionId: id,
+      exceptSessionId: null
+    })
+
+    return true
+  }
+
+  /**
+   * Revokes all sessions of the user
+   * @param userId id of the user who owns the sessions
+   * @param exceptId id of a session to keep active
+   * @returns number of revoked sessions
+   */
+  const revokeUserSessions = async (
+    userId: string,
+    exceptId?: string
+  ): Promise<number> => {
+    const { modifiedCount } = await sessions.updateMany(
+      {
+        userId: new ObjectID(userId),
+        revokedAt: null,
+        ...(exceptId
+          ? { _id: { $ne: new ObjectID(exceptId) } }
+          : {})
+      },
+      { $set: { revokedAt: new Date() } }
+    )
+    if (modifiedCount)
+      await onRevoked({
+        userId,
+        sessionId: null,
+        exceptSessionId: exceptId || null
+      })
+
+    return modifiedCount
+  }
+
+  return Object.freeze({
+    createSession,
+    findActiveSession,
+    findUserSessions,
+    rotateRefreshToken,
+    revokeSession,
+    revokeUserSessions
+  })
+}
+
+/**
+ * Kinds of events recorded in the audit log
+ * @typedef SecurityEventType
+ */
+export type SecurityEventType =
+  | 'SIGN_UP'
+  | 'SIGN_IN'
+  | 'SIGN_IN_FAILED'
+  | 'TOKEN_REFRESH'
+  | 'REFRESH_TOKEN_REUSE'
+  | 'TOKENS_INVALIDATED'
+  | 'PASSWORD_CHANGED'
+
+export const SECURITY_EVENT_TYPES: SecurityEventType[] = [
+  'SIGN_UP',
+  'SIGN_IN',
+  'SIGN_IN_FAILED',
+  'TOKEN_REFRESH',
+  'REFRESH_TOKEN_REUSE',
+  'TOKENS_INVALIDATED',
+  'PASSWORD_CHANGED'
+]
+
+// events are kept for 90 days unless configured otherwise
+export const DEFAULT_AUDIT_LOG_TTL = 60 * 60 * 24 * 90
+
+export interface SecurityEvent {
+  _id: ObjectID
+  type: SecurityEventType
+  /** `null` for failed sign ins with unknown emails */
+  userId: ObjectID | null
+  /** email given when signing in or up */
+  email: string | null
+  sessionId: ObjectID | null
+  userAgent: string
+  ip: string
+  createdAt: Date
+  /** removed by the TTL index once passed */
+  expiresAt: Date
+}
+
+/**
+ * Info about an event to record
+ * @typedef SecurityEventInput
+ */
+export interface SecurityEventInput {
+  type: SecurityEventType
+  userId?: string | null
+  email?: string | null
+  sessionId?: string | null
+  userAgent: string
+  ip: string
+}
+
+/**
+ * Selectors & page of the audit log to find
+ * @typedef FindEventsOptions
+ */
+export interface FindEventsOptions {
+  userId?: string
+  types?: SecurityEventType[]
+  ip?: string
+  /** only events recorded at or after */
+  since?: Date
+  /** only events recorded before */
+  until?: Date
+  /** id of the last event of the previous page */
+  after?: string
+  /** max number of events in the page */
+  first: number
+}
+
+/**
+ * Page of events along with whether more follow it
+ * @typedef SecurityEventPage
+ */
+export interface SecurityEventPage {
+  events: SecurityEvent[]
+  hasNextPage: boolean
+}
+
+export interface SecurityEventModel {
+  /**
+   * Records security relevant event into DB
+   * @param event info about the event
+   * @returns event info
+   */
+  recordEvent: (
+    event: SecurityEventInput
+  ) => Promise<SecurityEvent>
+  /**
+   * Lists events newest first, page by page
+   * @param options selectors, cursor & page size
+   * @returns page of events
+   */
+  findEvents: (
+    options: FindEventsOptions
+  ) => Promise<SecurityEventPage>
+}
+
+/**
+ * Generates the model of the audit log
+ * @param securityEvents collection of the events
+ * @param ttl seconds events are kept for
+ * @returns security event model
+ */
+export const generateSecurityEventModel = (
+  securityEvents: MongoEntity<SecurityEvent>,
+  ttl: number = DEFAULT_AUDIT_LOG_TTL
+): SecurityEventModel => {
+  /**
+   * Records security relevant event into DB
+   * @param event info about the event
+   * @returns event info
+   */
+  const recordEvent = async ({
+    type,
+    userId,
+    email,
+    sessionId,
+    userAgent,
+    ip
+  }: SecurityEventInput): Promise<SecurityEvent> => {
+    const createdAt = new Date()
+    const doc = {
+      _id: new ObjectID(),
+      type,
+      userId: userId ? new ObjectID(userId) : null,
+      email: email || null,
+      sessionId: sessionId ? new ObjectID(sessionId) : null,
+      userAgent,
+      ip,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + ttl * 1000)
+    }
+    const { insertedId } = await securityEvents.insertOne(
+      doc
+    )
+
+    return {
+      ...doc,
+      _id: insertedId
+    }
+  }
+
+  /**
+   * Lists events newest first, page by page
+   * @param param0 selectors, cursor & page size
+   * @returns page of events
+   */
+  const findEvents = async ({
+    userId,
+    types,
+    ip,
+    since,
+    until,
+    after,
+    first
+  }: FindEventsOptions): Promise<SecurityEventPage> => {
+    const selector: FilterQuery<SecurityEvent> = {}
+    if (userId) selector.userId = new ObjectID(userId)
+    if (types && types.length)
+      selector.type = { $in: types }
+    if (ip) selector.ip = ip
+    if (since || until)
+      selector.createdAt = {
+        ...(since ? { $gte: since } : {}),
+        ...(until ? { $lt: until } : {})
+      }
+    // ids grow with creation time so they double as the cursor
+    if (after) selector._id = { $lt: new ObjectID(after) }
+
+    // fetches one extra event to tell whether another page follows
+    const found = await securityEvents
+      .find(selector)
+      .sort({ _id: -1 })
+      .limit(first + 1)
+      .toArray()
+
+    return {
+      events: found.slice(0, first),
+      hasNextPage: found.length > first
+    }
+  }
+
+  return Object.freeze({
+    recordEvent,
+    findEvents
+  })
+}
+
+/**
+ * All the data models used by the auth module
+ * @typedef AuthModels
+ */
+export interface AuthModels {
+  users: UserModel
+  sessions: SessionModel
+  securityEvents: SecurityEventModel
+}
@@ -0,0 +1,237 @@
+import { MongoEntity } from 'apollo-connector-mongodb'
+
+import {
+  defineModule,
+  ApiModule,
+  ModuleEntities
+} from '@nextq/registry/api'
+import { PubSub } from '@nextq/pubsub/api'
+
+import {
+  AuthTypes,
+  AuthPermissions,
+  AuthContext,
+  sessionRevokedTopic
+} from './typeDefs'
+import {
+  generateUserModel,
+  generateSessionModel,
+  generateSecurityEventModel,
+  AuthModels,
+  User,
+  Session,
+  SecurityEvent,
+  SessionRevokedEvent,
+  DEFAULT_HASH_COST,
+  getDummyPasswordHash,
+  DEFAULT_AUDIT_LOG_TTL,
+  DEFAULT_REFRESH_REUSE_GRACE
+} from './models'
+import {
+  TokenGenerator,
+  getActiveUser,
+  getConnectionUser,
+  getClientInfo
+} from './utils'
+import { Mailer } from './mailer'
+import {
+  generateLoginLimiter,
+  generateMongoAttemptStore,
+  LoginLimiter,
+  LoginLimiterOptions,
+  LoginAttempt
+} from './loginLimiter'
+import { PasswordPolicy } from './passwordPolicy'
+import { AuthCookies, csrfProtection } from './cookies'
+import { generateAuthMigrations } from './migrations'
+
+/**
+ * Services the auth module is set up with
+ * @typedef AuthModuleOptions
+ */
+export interface AuthModuleOptions {
+  tokenGenerator: TokenGenerator
+  mailer: Mailer
+  passwordPolicy: PasswordPolicy
+  authCookies: AuthCookies
+  /** announces revoked sessions to their devices */
+  pubSub: PubSub
+  /** connection the auth collections live in */
+  database: string
+  /** base url of links sent in emails */
+  appURL: string
+  /** bcrypt cost of new password hashes */
+  hashCost?: number
+  /** seconds audit events are kept for */
+  auditLogTtl?: number
+  /** seconds a rotated refresh token is still exchanged for the current one */
+  refreshReuseGrace?: number
+  /** ips of the proxies in front of the app, trusted to set `X-Forwarded-For` */
+  trustedProxies?: string[]
+  loginLimiter?: Partial<LoginLimiterOptions>
+}
+
+/**
+ * Values the auth module adds to the context
+ * @typedef AuthModuleContext
+ */
+export type AuthModuleContext = Omit<
+  AuthContext,
+  'req' | 'res' | 'models' | 'pubSub'
+>
+
+/**
+ * Collections of the auth module
+ * @typedef AuthEntities
+ */
+export interface AuthEntities extends ModuleEntities {
+  users: MongoEntity<User>
+  sessions: MongoEntity<Session>
+  securityEvents: MongoEntity<SecurityEvent>
+  loginAttempts: MongoEntity<LoginAttempt>
+}
+
+/**
+ * Generates the auth module: users, sessions & sign in throttling
+ * @param options services used by the resolvers
+ * @returns module to register with the api
+ */
+export const generateAuthModule = ({
+  tokenGenerator,
+  mailer,
+  passwordPolicy,
+  authCookies,
+  pubSub,
+  database,
+  appURL,
+  hashCost = DEFAULT_HASH_COST,
+  auditLogTtl = DEFAULT_AUDIT_LOG_TTL,
+  refreshReuseGrace = DEFAULT_REFRESH_REUSE_GRACE,
+  trustedProxies = [],
+  loginLimiter: loginLimiterOptions
+}: AuthModuleOptions): ApiModule<
+  AuthModels,
+  AuthModuleContext,
+  AuthEntities
+> => {
+  // ready before the first sign in, which would otherwise take longer for unknown emails
+  getDummyPasswordHash(hashCost)
+
+  // built along with the first models, then shared by every request
+  let loginLimiter: LoginLimiter | null = null
+
+  return defineModule<
+    AuthModels,
+    AuthModuleContext,
+    AuthEntities
+  >({
+    name: 'auth',
+    // subscriptions read pubSub from the context
+    dependsOn: ['pubsub'],
+    types: [AuthTypes],
+    permissions: AuthPermissions,
+    middlewares: [csrfProtection],
+    databases: [database],
+    migrations: generateAuthMigrations(database),
+    entities: (getDatabase): AuthEntities => {
+      const db = getDatabase(database)
+
+      return {
+        // users are batched & cached per request by the user model's loader
+        users: new MongoEntity(db, 'users'),
+        // sessions aren't cached so revocations apply right away
+        sessions: new MongoEntity(db, 'sessions'),
+        securityEvents: new MongoEntity(
+          db,
+          'securityEvents'
+        ),
+        loginAttempts: new MongoEntity(db, 'loginAttempts')
+      }
+    },
+    models: ({
+      users,
+      sessions,
+      securityEvents,
+      loginAttempts
+    }): AuthModels => {
+      if (!loginLimiter)
+        loginLimiter = generateLoginLimiter(
+          generateMongoAttemptStore(loginAttempts),
+          loginLimiterOptions
+        )
+
+      return {
+        users: generateUserModel(users, hashCost),
+        sessions: generateSessionModel(
+          sessions,
+          async (
+            event: SessionRevokedEvent
+          ): Promise<void> =>
+            // revoking still succeeds when devices can't be notified
+            pubSub
+              .publish(
+                sessionRevokedTopic(event.userId),
+                event
+              )
+              .catch((e): void =>
+                console.error(
+                  'Failed to announce revoked sessions',
+                  e
+                )
+              ),
+          refreshReuseGrace
+        ),
+        securityEvents: generateSecurityEventModel(
+          securityEvents,
+          auditLogTtl
+        )
+      }
+    },
+    context: async ({
+      req,
+      res,
+      models,
+      connection
+    }): Promise<AuthModuleContext> => {
+      if (!loginLimiter)
+        throw new Error(
+          'Auth models have to be generated before the context'
+        )
+
+      const client = getClientInfo(req, trustedProxies)
+      const activeUser = connection
+        ? await getConnectionUser(
+            req,
+            connection,
+            tokenGenerator,
+            models,
+            authCookies
+          )
+        : await getActiveUser(
+            req,
+            res,
+            tokenGenerator,
+            models,
+            authCookies,
+            client
+          )
+
+      return {
+        user: activeUser ? activeUser.user : null,
+        sessionId: activeUser ? activeUser.sessionId : null,
+        roles: activeUser ? activeUser.roles : [],
+        // requests without a signed in user have nothing to forge
+        csrfVerified: activeUser
+          ? activeUser.csrfVerified
+          : true,
+        tokenGenerator,
+        mailer,
+        appURL,
+        loginLimiter,
+        passwordPolicy,
+        authCookies,
+        client
+      }
+    }
+  })
+}
@@ -0,0 +1,340 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { Socket } from 'net'
+import { ObjectID } from 'mongodb'
+import { parse } from 'cookie'
+
+import {
+  AuthModels,
+  LinkedIdentity,
+  User,
+  UserModel
+} from './models'
+import {
+  findOrCreateIdentityUser,
+  generateOidcHandlers,
+  generateKeySetDiscoveryHandler,
+  OidcClaims,
+  OidcProvider
+} from './oidc'
+import { TokenGenerator } from './utils'
+import { AuthCookies } from './cookies'
+import { KeySetSigner } from './signingKeys'
+
+/**
+ * Builds claims of an ID token
+ * @param email email shared by the issuer
+ * @param emailVerified whether the issuer verified the email
+ * @returns claims
+ */
+const claims = (
+  email: string,
+  emailVerified = false
+): OidcClaims => ({
+  sub: '1',
+  email,
+  // claim name comes from the OpenID Connect spec
+  // eslint-disable-next-line camelcase
+  email_verified: emailVerified
+})
+
+/**
+ * Sets up models with a single local user
+ * @param emailVerified whether the local user verified the email
+ * @returns models, the local user & the identities linked to it
+ */
+const setup = (
+  emailVerified: boolean
+): {
+  models: AuthModels
+  existing: User
+  linked: LinkedIdentity[]
+} => {
+  const existing: User = {
+    _id: new ObjectID(),
+    email: 'user@example.com',
+    passwordHash: '',
+    count: 0,
+    emailVerified,
+    emailVerifiedAt: emailVerified ? new Date() : null
+  }
+  const linked: LinkedIdentity[] = []
+  const users: Partial<UserModel> = {
+    findUserByIdentity: async (): Promise<User | null> =>
+      null,
+    findUserByEmail: async (
+      email: string
+    ): Promise<User | null> =>
+      email === existing.email ? existing : null,
+    linkIdentity: async (
+      id: string,
+      identity: LinkedIdentity
+    ): Promise<boolean> => {
+      linked.push(identity)
+      return true
+    },
+    createNewIdentityUser: async (
+      email: string,
+      identity: LinkedIdentity,
+      verified: boolean
+    ): Promise<User> => ({
+      ...existing,
+      _id: new ObjectID(),
+      email,
+      emailVerified: verified,
+      identities: [identity]
+    })
+  }
+
+  const models: Partial<AuthModels> = {
+    users: users as UserModel
+  }
+
+  return {
+    models: models as AuthModels,
+    existing,
+    linked
+  }
+}
+
+describe('findOrCreateIdentityUser', (): void => {
+  it('links the identity when both sides verified the email', async (): Promise<
+    void
+  > => {
+    const { models, existing, linked } = setup(true)
+
+    const user = await findOrCreateIdentityUser(
+      'google',
+      claims(existing.email, true),
+      models
+    )
+
+    expect(user).toBe(existing)
+    expect(linked).toHaveLength(1)
+  })
+
+  it("refuses to link to an account whose email isn't verified", async (): Promise<
+    void
+  > => {
+    const { models, existing, linked } = setup(false)
+
+    await expect(
+      findOrCreateIdentityUser(
+        'google',
+        claims(existing.email, true),
+        models
+      )
+    ).rejects.toThrow('sign in to link')
+    expect(linked).toHaveLength(0)
+  })
+
+  it("refuses to link an email the issuer didn't verify", async (): Promise<
+    void
+  > => {
+    const { models, existing, linked } = setup(true)
+
+    await expect(
+      findOrCreateIdentityUser(
+        'google',
+        claims(existing.email),
+        models
+      )
+    ).rejects.toThrow('sign in to link')
+    expect(linked).toHaveLength(0)
+  })
+
+  it('creates a user for an unknown email', async (): Promise<
+    void
+  > => {
+    const { models, existing } = setup(true)
+
+    const user = await findOrCreateIdentityUser(
+      'google',
+      claims('new@example.com'),
+      models
+    )
+
+    expect(user._id.equals(existing._id)).toBe(false)
+    expect(user.emailVerified).toBe(false)
+  })
+})
+
+describe('generateOidcHandlers callback', (): void => {
+  it('sends users with 2FA to the sign in page with a challenge', async (): Promise<
+    void
+  > => {
+    const { models, existing } = setup(true)
+    const user: User = {
+      ...existing,
+      totp: { secret: '', enabled: true, lastUsedStep: 0 }
+    }
+    models.users.findUserByIdentity = async (): Promise<User | null> =>
+      user
+    const provider: OidcProvider = {
+      name: 'google',
+      getAuthorizationUrl: async (): Promise<string> => '',
+      exchangeCode: async (): Promise<string> => 'id-token',
+      validateIdToken: async (): Promise<OidcClaims> =>
+        claims(user.email, true)
+    }
+    const tokenGenerator: Partial<TokenGenerator> = {
+      challengeToken: (userId: string): string =>
+        `challenge-${userId}`
+    }
+    const authCookies: Partial<AuthCookies> = {}
+    const { callback } = generateOidcHandlers({
+      providers: [provider],
+      getModels: async (): Promise<AuthModels> => models,
+      tokenGenerator: tokenGenerator as TokenGenerator,
+      authCookies: authCookies as AuthCookies
+    })
+
+    const req = new IncomingMessage(new Socket())
+    req.headers = {
+      cookie: `oidc-state=${encodeURIComponent(
+        JSON.stringify({
+          state: 'state',
+          nonce: 'nonce',
+          codeVerifier: 'verifier',
+          provider: 'google',
+          returnTo: '/account'
+        })
+      )}`
+    }
+    const res = new ServerResponse(req)
+
+    await callback(
+      Object.assign(req, {
+        query: {
+          provider: 'google',
+          state: 'state',
+          code: 'code'
+        }
+      }),
+      res
+    )
+
+    expect(res.statusCode).toBe(302)
+    expect(res.getHeader('Location')).toBe(
+      `/signin?challenge=challenge-${user._id.toHexString()}&returnTo=%2Faccount`
+    )
+  })
+})
+
+describe('generateOidcHandlers authorize', (): void => {
+  /**
+   * Starts signing in with a provider
+   * @param getAuthorizationUrl builds the provider's authorization url
+   * @param returnTo page to return to after signing in
+   * @returns response of the authorize route
+   */
+  const authorize = async (
+    getAuthorizationUrl: OidcProvider['getAuthorizationUrl'],
+    returnTo: string
+  ): Promise<ServerResponse> => {
+    const { models } = setup(true)
+    const provider: OidcProvider = {
+      name: 'google',
+      getAuthorizationUrl,
+      exchangeCode: async (): Promise<string> => '',
+      validateIdToken: async (): Promise<OidcClaims> =>
+        claims('')
+    }
+    const tokenGenerator: Partial<TokenGenerator> = {}
+    const authCookies: Partial<AuthCookies> = {}
+    const handlers = generateOidcHandlers({
+      providers: [provider],
+      getModels: async (): Promise<AuthModels> => models,
+      tokenGenerator: tokenGenerator as TokenGenerator,
+      authCookies: authCookies as AuthCookies
+    })
+    const req = new IncomingMessage(new Socket())
+    const res = new ServerResponse(req)
+
+    await handlers.authorize(
+      Object.assign(req, {
+        query: { provider: 'google', returnTo }
+      }),
+      res
+    )
+
+    return res
+  }
+
+  afterEach((): void => {
+    jest.restoreAllMocks()
+  })
+
+  it('only keeps local pages to return to', async (): Promise<
+    void
+  > => {
+    const returnTo = async (
+      path: string
+    ): Promise<string> => {
+      const res = await authorize(
+        async (): Promise<string> => 'https://issuer/auth',
+        path
+      )
+      const header = res.getHeader('Set-Cookie')
+      const [cookie] = Array.isArray(header)
+        ? header
+        : [header]
+
+      return JSON.parse(parse(String(cookie))['oidc-state'])
+        .returnTo
+    }
+
+    expect(await returnTo('/account')).toBe('/account')
+    expect(await returnTo('//evil.com')).toBe('/')
+    expect(await returnTo('/\\evil.com')).toBe('/')
+    expect(await returnTo('https://evil.com')).toBe('/')
+  })
+
+  it("answers when the provider can't be reached", async (): Promise<
+    void
+  > => {
+    jest
+      .spyOn(console, 'error')
+      .mockImplementation((): void => undefined)
+
+    const res = await authorize(async (): Promise<
+      string
+    > => {
+      throw new Error('discovery failed')
+    }, '/')
+
+    expect(res.statusCode).toBe(502)
+    expect(res.getHeader('Set-Cookie')).toBeUndefined()
+  })
+})
+
+describe('generateKeySetDiscoveryHandler', (): void => {
+  it('advertises where the signing keys are served', (): void => {
+    const signer: Partial<KeySetSigner> = {
+      jwks: (): ReturnType<KeySetSigner['jwks']> => ({
+        keys: [
+          { kid: '2', alg: 'ES256', kty: 'EC', use: 'sig' },
+          { kid: '1', alg: 'ES256', kty: 'EC', use: 'sig' }
+        ]
+      })
+    }
+    const req = new IncomingMessage(new Socket())
+    const res = new ServerResponse(req)
+    const end = jest
+      .spyOn(res, 'end')
+      .mockImplementation((): void => undefined)
+
+    generateKeySetDiscoveryHandler(
+      'https://app.example.com/',
+      signer as KeySetSigner
+    )(req, res)
+
+    expect(JSON.parse(end.mock.calls[0][0])).toEqual({
+      issuer: 'https://app.example.com/api',
+      // eslint-disable-next-line camelcase
+      jwks_uri:
+        'https://app.example.com/api/.well-known/jwks.json',
+      // eslint-disable-next-line camelcase
+      id_token_signing_alg_values_supported: ['ES256']
+    })
+  })
+})
@@ -0,0 +1,756 @@
+import {
+  request as httpRequest,
+  IncomingMessage,
+  ServerResponse
+} from 'http'
+import { request as httpsRequest } from 'https'
+import { parse as parseUrl } from 'url'
+import { stringify } from 'querystring'
+import { randomBytes, createHash } from 'crypto'
+import { verify, decode } from 'jsonwebtoken'
+import jwkToPem, { JWK } from 'jwk-to-pem'
+import { serialize, parse } from 'cookie'
+
+import { AuthModels, User } from './models'
+import {
+  TokenGenerator,
+  appendCookies,
+  signInWithNewSession,
+  getClientInfo
+} from './utils'
+import { AuthCookies } from './cookies'
+import {
+  KeySetSigner,
+  JWKS_PATH,
+  keySetIssuer
+} from './signingKeys'
+
+/**
+ * Settings needed to talk to an OpenID Connect issuer
+ * @typedef OidcProviderConfig
+ */
+export interface OidcProviderConfig {
+  /** name used in routes & stored on linked identities */
+  name: string
+  /** issuer url, its discovery document is read from `/.well-known/openid-configuration` */
+  issuer: string
+  clientId: string
+  clientSecret: string
+  /** url of the callback route registered with the issuer */
+  redirectUri: string
+  scopes?: string[]
+}
+
+/* eslint-disable camelcase */
+// field names of the wire formats come from the OpenID Connect spec
+
+/**
+ * Endpoints read from the issuer's discovery document
+ * @typedef OidcDiscovery
+ */
+interface OidcDiscovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+/**
+ * Response of the issuer's token endpoint
+ * @typedef OidcTokenResponse
+ */
+interface OidcTokenResponse {
+  id_token?: string
+}
+
+/**
+ * Claims of a validated ID token which are used for sign in
+ * @typedef OidcClaims
+ */
+export interface OidcClaims {
+  sub: string
+  email?: string
+  email_verified?: boolean
+}
+/* eslint-enable camelcase */
+
+/**
+ * Values which have to survive the round trip through the issuer
+ * @typedef OidcAuthorizationRequest
+ */
+export interface OidcAuthorizationRequest {
+  state: string
+  nonce: string
+  codeVerifier: string
+}
+
+/**
+ * Client for a single OpenID Connect issuer
+ * @typedef OidcProvider
+ */
+export interface OidcProvider {
+  name: string
+  /**
+   * Builds url of the issuer's authorization endpoint
+   * @param request state, nonce & PKCE verifier for the request
+   * @returns url to redirect the user to
+   */
+  getAuthorizationUrl: (
+    request: OidcAuthorizationRequest
+  ) => Promise<string>
+  /**
+   * Exchanges authorization code for the ID token
+   * @param code code sent to the callback
+   * @param codeVerifier PKCE verifier used for the authorization url
+   * @returns raw ID token
+   */
+  exchangeCode: (
+    code: string,
+    codeVerifier: string
+  ) => Promise<string>
+  /**
+   * Verifies ID token's signature & claims
+   * @param idToken raw ID token
+   * @param nonce nonce used for the authorization url
+   * @returns claims from the token
+   */
+  validateIdToken: (
+    idToken: string,
+    nonce: string
+  ) => Promise<OidcClaims>
+}
+
+/**
+ * Renames camel case keys to the snake case used by OAuth params & metadata
+ * @param params params with camel case keys
+ * @returns params with snake case keys
+ */
+const snakeCaseKeys = <T>(
+  params: Record<string, T>
+): Record<string, T> =>
+  Object.keys(params).reduce<Record<string, T>>(
+    (renamed, key): Record<string, T> => ({
+      ...renamed,
+      [key.replace(
+        /[A-Z]/g,
+        (letter): string => `_${letter.toLowerCase()}`
+      )]: params[key]
+    }),
+    {}
+  )
+
+/**
+ * Makes HTTP(S) request & parses the JSON response
+ * @param url url to request
+ * @param form url encoded body, sends a POST request when given
+ * @returns parsed response body
+ */
+const requestJson = <T>(
+  url: string,
+  form?: Record<string, string>
+): Promise<T> =>
+  new Promise((resolve, reject): void => {
+    const { protocol, hostname, port, path } = parseUrl(url)
+    const body = form ? stringify(form) : undefined
+    const request =
+      protocol === 'http:' ? httpRequest : httpsRequest
+
+    const req = request(
+      {
+        method: body ? 'POST' : 'GET',
+        hostname,
+        port,
+        path,
+        headers: {
+          accept: 'application/json',
+          ...(body
+            ? {
+                'content-type':
+                  'application/x-www-form-urlencoded',
+                'content-length': Buffer.byteLength(body)
+              }
+            : {})
+        }
+      },
+      (res: IncomingMessage): void => {
+        let data = ''
+        res.setEncoding('utf8')
+        res.on('data', (chunk: string): void => {
+          data += chunk
+        })
+        res.on('end', (): void => {
+          const status = res.statusCode || 0
+          if (status < 200 || status >= 300)
+            return reject(
+              new Error(`${url} responded with ${status}`)
+            )
+
+          try {
+            resolve(JSON.parse(data))
+          } catch (e) {
+            reject(e)
+          }
+        })
+      }
+    )
+
+    req.on('error', reject)
+    if (body) req.write(body)
+    req.end()
+  })
+
+/**
+ * Encodes buffer as base64url without padding
+ * @param buffer data to encode
+ * @returns base64url string
+ */
+const base64url = (buffer: Buffer): string =>
+  buffer
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+/**
+ * Generates random state, nonce & PKCE verifier for an authorization request
+ * @returns values for the authorization request
+ */
+export const generateAuthorizationRequest = (): OidcAuthorizationRequest => ({
+  state: base64url(randomBytes(16)),
+  nonce: base64url(randomBytes(16)),
+  codeVerifier: base64url(randomBytes(32))
+})
+
+/**
+ * Generates client for any standards compliant OpenID Connect issuer
+ * @param config Settings of the issuer & registered client
+ * @returns OpenID Connect provider
+ */
+export const generateOidcProvider = ({
+  name,
+  issuer,
+  clientId,
+  clientSecret,
+  redirectUri,
+  scopes = ['openid', 'email']
+}: OidcProviderConfig): OidcProvider => {
+  let discovery: Promise<OidcDiscovery> | null = null
+  let jwks: Promise<JWK[]> | null = null
+
+  /**
+   * Reads issuer's discovery document once & caches it
+   * @returns issuer's endpoints
+   */
+  const discover = (): Promise<OidcDiscovery> => {
+    if (!discovery)
+      discovery = requestJson<OidcDiscovery>(
+        `${issuer.replace(
+          /\/$/,
+          ''
+        )}/.well-known/openid-configuration`
+      ).catch(
+        (e): Promise<OidcDiscovery> => {
+          discovery = null
+          throw e
+        }
+      )
+
+    return discovery
+  }
+
+  /**
+   * Looks up issuer's signing key, refetching the key set if the key is unknown
+   * @param kid id of the key from the token's header
+   * @returns signing key in PEM format
+   */
+  const getSigningKey = async (
+    kid?: string
+  ): Promise<string> => {
+    const findKey = async (): Promise<JWK | undefined> => {
+      if (!jwks)
+        jwks = discover()
+          .then(
+            ({
+              jwks_uri: jwksUri
+            }): Promise<{ keys: JWK[] }> =>
+              requestJson<{ keys: JWK[] }>(jwksUri)
+          )
+          .then(({ keys }): JWK[] => keys)
+
+      const keys = await jwks
+
+      return keys.find(
+        (key): boolean =>
+          !kid ||
+          (key as JWK & { kid?: string }).kid === kid
+      )
+    }
+
+    let key = await findKey()
+    if (!key) {
+      // issuer might have rotated its keys
+      jwks = null
+      key = await findKey()
+    }
+    if (!key) throw new Error(`Unknown signing key ${kid}`)
+
+    return jwkToPem(key)
+  }
+
+  const getAuthorizationUrl = async ({
+    state,
+    nonce,
+    codeVerifier
+  }: OidcAuthorizationRequest): Promise<string> => {
+    const {
+      authorization_endpoint: authorizationEndpoint
+    } = await discover()
+    const codeChallenge = base64url(
+      createHash('sha256')
+        .update(codeVerifier)
+        .digest()
+    )
+    const separator = authorizationEndpoint.includes('?')
+      ? '&'
+      : '?'
+
+    return `${authorizationEndpoint}${separator}${stringify(
+      snakeCaseKeys({
+        responseType: 'code',
+        clientId,
+        redirectUri,
+        scope: scopes.join(' '),
+        state,
+        nonce,
+        codeChallenge,
+        codeChallengeMethod: 'S256'
+      })
+    )}`
+  }
+
+  const exchangeCode = async (
+    code: string,
+    codeVerifier: string
+  ): Promise<string> => {
+    const {
+      token_endpoint: tokenEndpoint
+    } = await discover()
+    const { id_token: idToken } = await requestJson<
+      OidcTokenResponse
+    >(
+      tokenEndpoint,
+      snakeCaseKeys({
+        grantType: 'authorization_code',
+        code,
+        redirectUri,
+        clientId,
+        clientSecret,
+        codeVerifier
+      })
+    )
+
+    if (!idToken)
+      throw new Error(`${name} didn't return an ID token`)
+
+    return idToken
+  }
+
+  const validateIdToken = async (
+    idToken: string,
+    nonce: string
+  ): Promise<OidcClaims> => {
+    const decoded = decode(idToken, { complete: true }) as {
+      header: { kid?: string }
+    } | null
+    if (!decoded) throw new Error('Malformed ID token')
+
+    const discovered = await discover()
+    const claims = verify(
+      idToken,
+      await getSigningKey(decoded.header.kid),
+      {
+        algorithms: ['RS256', 'ES256'],
+        audience: clientId,
+        issuer: discovered.issuer
+      }
+    ) as OidcClaims & { nonce?: string }
+
+    if (claims.nonce !== nonce)
+      throw new Error('ID token nonce mismatch')
+
+    return claims
+  }
+
+  return Object.freeze({
+    name,
+    getAuthorizationUrl,
+    exchangeCode,
+    validateIdToken
+  })
+}
+
+/**
+ * Finds the user for the provider's identity, linking or creating one if needed
+ * @param provider name of the provider
+ * @param claims validated ID token claims
+ * @param models Data model
+ * @returns user to sign in
+ */
+export const findOrCreateIdentityUser = async (
+  provider: string,
+  { sub, email, email_verified: emailVerified }: OidcClaims,
+  models: AuthModels
+): Promise<User> => {
+  const linked = await models.users.findUserByIdentity(
+    provider,
+    sub
+  )
+  if (linked) return linked
+
+  if (!email)
+    throw new Error(`${provider} didn't share an email`)
+
+  const identity = {
+    provider,
+    subject: sub,
+    linkedAt: new Date()
+  }
+  const existing = await models.users.findUserByEmail(email)
+
+  if (existing) {
+    // linking needs both sides to prove the email, otherwise whoever registered
+    // it first, locally or at the issuer, could take over the other's account
+    if (!emailVerified || !existing.emailVerified)
+      throw new Error(
+        `User with ${email} already exists, sign in to link ${provider}`
+      )
+
+    await models.users.linkIdentity(
+      existing._id.toHexString(),
+      identity
+    )
+
+    return existing
+  }
+
+  return models.users.createNewIdentityUser(
+    email,
+    identity,
+    Boolean(emailVerified)
+  )
+}
+
+/**
+ * Options for the OpenID Connect route handlers
+ * @typedef OidcHandlerOptions
+ */
+export interface OidcHandlerOptions {
+  providers: OidcProvider[]
+  getModels: () => Promise<AuthModels>
+  tokenGenerator: TokenGenerator
+  authCookies: AuthCookies
+  /** ips of the proxies in front of the app, trusted to set `X-Forwarded-For` */
+  trustedProxies?: string[]
+  /** page where users with 2FA enter their code, it's given the `challenge` & `returnTo` query params */
+  signInPath?: string
+}
+
+/**
+ * Request passed to Next API routes, with the parsed query
+ * @typedef ApiRequest
+ */
+type ApiRequest = IncomingMessage & {
+  query?: Record<string, string | string[]>
+}
+
+type RouteHandler = (
+  req: ApiRequest,
+  res: ServerResponse
+) => Promise<void>
+
+/**
+ * Handlers for the routes starting & completing OpenID Connect sign in
+ * @typedef OidcHandlers
+ */
+export interface OidcHandlers {
+  authorize: RouteHandler
+  callback: RouteHandler
+}
+
+const STATE_COOKIE = 'oidc-state'
+
+/**
+ * Contents of the state cookie set before redirecting to the issuer
+ * @typedef SavedAuthorizationRequest
+ */
+interface SavedAuthorizationRequest
+  extends OidcAuthorizationRequest {
+  provider: string
+  returnTo: string
+}
+
+/**
+ * Reads a single query param from the request
+ * @param req Request coming from client
+ * @param name name of the param
+ * @returns value of the param
+ */
+const getQueryParam = (
+  req: ApiRequest,
+  name: string
+): string => {
+  const query =
+    req.query || parseUrl(req.url || '', true).query
+  const value = query[name]
+
+  return (Array.isArray(value) ? value[0] : value) || ''
+}
+
+/**
+ * Redirects the client to the given url
+ * @param res Response sent out to client
+ * @param location url to redirect to
+ */
+const redirect = (
+  res: ServerResponse,
+  location: string
+): void => {
+  res.statusCode = 302
+  res.setHeader('Location', location)
+  res.end()
+}
+
+/**
+ * Keeps the page to return to after signing in on this site, so the callback can't be used as an open redirect
+ * @param returnTo path asked for
+ * @returns the path if it's local, the root otherwise
+ */
+const localReturnTo = (returnTo: string): string =>
+  returnTo.startsWith('/') &&
+  // `//host` & `/\host` are read as other sites by browsers
+  !/^\/[/\\]/.test(returnTo)
+    ? returnTo
+    : '/'
+
+/**
+ * Generates handlers for the OpenID Connect authorize & callback routes
+ * @param param0 providers, models, token generator & cookie helpers to sign users in with
+ * @returns route handlers
+ */
+export const generateOidcHandlers = ({
+  providers,
+  getModels,
+  tokenGenerator,
+  authCookies,
+  trustedProxies = [],
+  signInPath = '/signin'
+}: OidcHandlerOptions): OidcHandlers => {
+  /**
+   * Finds provider named in the route
+   * @param req Request coming from client
+   * @returns configured provider, if there's one
+   */
+  const findProvider = (
+    req: ApiRequest
+  ): OidcProvider | undefined => {
+    const name = getQueryParam(req, 'provider')
+
+    return providers.find(
+      (provider): boolean => provider.name === name
+    )
+  }
+
+  /**
+   * Redirects the user to the provider's authorization endpoint
+   * @param req Request coming from client
+   * @param res Response sent out to client
+   */
+  const authorize = async (
+    req: ApiRequest,
+    res: ServerResponse
+  ): Promise<void> => {
+    const provider = findProvider(req)
+    if (!provider) {
+      res.statusCode = 404
+      res.end('Unknown provider')
+      return
+    }
+
+    const request = generateAuthorizationRequest()
+    let authorizationUrl: string
+    try {
+      authorizationUrl = await provider.getAuthorizationUrl(
+        request
+      )
+    } catch (e) {
+      console.error(
+        `OpenID Connect sign in couldn't start: ${e.message}`
+      )
+
+      res.statusCode = 502
+      res.end('Sign in failed')
+      return
+    }
+
+    appendCookies(res, [
+      serialize(
+        STATE_COOKIE,
+        JSON.stringify({
+          ...request,
+          provider: provider.name,
+          returnTo: localReturnTo(
+            getQueryParam(req, 'returnTo')
+          )
+        }),
+        {
+          httpOnly: true,
+          sameSite: 'lax',
+          path: '/',
+          maxAge: 60 * 10
+        }
+      )
+    ])
+
+    redirect(res, authorizationUrl)
+  }
+
+  /**
+   * Completes sign in after the provider redirects the user back
+   * @param req Request coming from client
+   * @param res Response sent out to client
+   */
+  const callback = async (
+    req: ApiRequest,
+    res: ServerResponse
+  ): Promise<void> => {
+    const provider = findProvider(req)
+    const saved = parse(req.headers.cookie || '')[
+      STATE_COOKIE
+    ]
+
+    // state cookie is single use
+    appendCookies(res, [
+      serialize(STATE_COOKIE, '', { path: '/', maxAge: 0 })
+    ])
+
+    try {
+      const savedRequest: Partial<
+        SavedAuthorizationRequest
+      > = saved ? JSON.parse(saved) : {}
+      const {
+        state,
+        nonce = '',
+        codeVerifier = '',
+        returnTo: savedReturnTo = '/',
+        provider: savedProvider
+      } = savedRequest
+      const returnTo = localReturnTo(savedReturnTo)
+
+      if (
+        !provider ||
+        savedProvider !== provider.name ||
+        !state ||
+        state !== getQueryParam(req, 'state')
+      )
+        throw new Error('Invalid sign in state')
+
+      const idToken = await provider.exchangeCode(
+        getQueryParam(req, 'code'),
+        codeVerifier
+      )
+      const claims = await provider.validateIdToken(
+        idToken,
+        nonce
+      )
+      const models = await getModels()
+      const user = await findOrCreateIdentityUser(
+        provider.name,
+        claims,
+        models
+      )
+
+      // users with 2FA finish signing in with verifySecondFactor
+      if (user.totp && user.totp.enabled) {
+        redirect(
+          res,
+          `${signInPath}?${stringify({
+            challenge: tokenGenerator.challengeToken(
+              user._id.toHexString()
+            ),
+            returnTo
+          })}`
+        )
+        return
+      }
+
+      await signInWithNewSession(
+        user,
+        {
+          models,
+          res,
+          client: getClientInfo(req, trustedProxies),
+          tokenGenerator,
+          authCookies
+        },
+        true
+      )
+
+      redirect(res, returnTo)
+    } catch (e) {
+      console.error(
+        `OpenID Connect sign in failed: ${e.message}`
+      )
+
+      res.statusCode = 400
+      res.end('Sign in failed')
+    }
+  }
+
+  return Object.freeze({
+    authorize,
+    callback
+  })
+}
+
+/**
+ * Generates handler serving discovery metadata which points verifiers at the signing keys.
+ * Served at `<issuer>/.well-known/openid-configuration`, where OpenID Connect discovery
+ * looks for it when the issuer has a path, as the keys can't be served at `/.well-known/jwks.json`
+ * @param appURL public url of the app
+ * @param signer key set signer, used for the advertised algorithms
+ * @returns request handler
+ */
+export const generateKeySetDiscoveryHandler = (
+  appURL: string,
+  signer: KeySetSigner | null
+): ((
+  req: IncomingMessage,
+  res: ServerResponse
+) => void) => (
+  req: IncomingMessage,
+  res: ServerResponse
+): void => {
+  const baseURL = appURL.replace(/\/+$/, '')
+  const algorithms = signer
+    ? signer
+        .jwks()
+        .keys.map(({ alg }): string => alg)
+        .filter(
+          (alg, index, all): boolean =>
+            all.indexOf(alg) === index
+        )
+    : []
+
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'application/json')
+  res.setHeader('Cache-Control', 'public, max-age=300')
+  res.end(
+    JSON.stringify(
+      snakeCaseKeys<string | string[]>({
+        issuer: keySetIssuer(appURL),
+        jwksUri: `${baseURL}${JWKS_PATH}`,
+        idTokenSigningAlgValuesSupported: algorithms
+      })
+    )
+  )
+}
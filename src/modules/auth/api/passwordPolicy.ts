@@ -0,0 +1,163 @@
+import { WeakPasswordError } from './errors'
+
+/**
+ * Rules passwords have to follow
+ * @typedef PasswordPolicyOptions
+ */
+export interface PasswordPolicyOptions {
+  /** min number of characters */
+  minLength: number
+  /** max number of characters, bcrypt ignores anything past 72 bytes */
+  maxLength: number
+  requireLowercase: boolean
+  requireUppercase: boolean
+  requireDigit: boolean
+  requireSymbol: boolean
+  /** passwords which are rejected regardless of the other rules, case insensitive */
+  bannedPasswords: string[]
+}
+
+/**
+ * Rule the password broke along with a message to show the user
+ * @typedef PasswordViolation
+ */
+export interface PasswordViolation {
+  rule:
+    | 'MIN_LENGTH'
+    | 'MAX_LENGTH'
+    | 'LOWERCASE'
+    | 'UPPERCASE'
+    | 'DIGIT'
+    | 'SYMBOL'
+    | 'BANNED'
+  message: string
+}
+
+// most common passwords which pass the length check
+export const commonPasswords = [
+  'password',
+  'password1',
+  'password123',
+  '12345678',
+  '123456789',
+  '1234567890',
+  'qwerty123',
+  'qwertyuiop',
+  'iloveyou',
+  'sunshine',
+  'football',
+  'baseball',
+  'welcome1',
+  'abc12345',
+  'letmein1',
+  '11111111',
+  '00000000'
+]
+
+const defaultOptions: PasswordPolicyOptions = {
+  minLength: 8,
+  maxLength: 72,
+  requireLowercase: false,
+  requireUppercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  bannedPasswords: commonPasswords
+}
+
+/**
+ * Validates passwords against the configured rules
+ * @typedef PasswordPolicy
+ */
+export interface PasswordPolicy {
+  /**
+   * Checks the password against every rule
+   * @param password password to check
+   * @returns rules the password broke, empty if it's valid
+   */
+  validate: (password: string) => PasswordViolation[]
+  /**
+   * Throws if the password breaks any rule
+   * @param password password to check
+   */
+  assertValid: (password: string) => void
+}
+
+/**
+ * Generates policy which validates passwords
+ * @param options Rules passwords have to follow
+ * @returns password policy
+ */
+export const generatePasswordPolicy = (
+  options: Partial<PasswordPolicyOptions> = {}
+): PasswordPolicy => {
+  const {
+    minLength,
+    maxLength,
+    requireLowercase,
+    requireUppercase,
+    requireDigit,
+    requireSymbol,
+    bannedPasswords
+  } = { ...defaultOptions, ...options }
+  const banned = new Set(
+    bannedPasswords.map((password): string =>
+      password.toLowerCase()
+    )
+  )
+
+  const validate = (
+    password: string
+  ): PasswordViolation[] => {
+    const violations: PasswordViolation[] = []
+
+    if (password.length < minLength)
+      violations.push({
+        rule: 'MIN_LENGTH',
+        message: `Must be at least ${minLength} characters long`
+      })
+    if (password.length > maxLength)
+      violations.push({
+        rule: 'MAX_LENGTH',
+        message: `Must be at most ${maxLength} characters long`
+      })
+    if (requireLowercase && !/[a-z]/.test(password))
+      violations.push({
+        rule: 'LOWERCASE',
+        message: 'Must contain a lowercase letter'
+      })
+    if (requireUppercase && !/[A-Z]/.test(password))
+      violations.push({
+        rule: 'UPPERCASE',
+        message: 'Must contain an uppercase letter'
+      })
+    if (requireDigit && !/[0-9]/.test(password))
+      violations.push({
+        rule: 'DIGIT',
+        message: 'Must contain a digit'
+      })
+    if (requireSymbol && !/[^a-zA-Z0-9]/.test(password))
+      violations.push({
+        rule: 'SYMBOL',
+        message: 'Must contain a symbol'
+      })
+    if (banned.has(password.toLowerCase()))
+      violations.push({
+        rule: 'BANNED',
+        message: 'Is too common'
+      })
+
+    return violations
+  }
+
+  const assertValid = (password: string): void => {
+    const violations = validate(password)
+
+    if (violations.length)
+      throw new WeakPasswordError(violations)
+  }
+
+  return Object.freeze({
+    validate,
+    assertValid
+  })
+}
@@ -1,7 +1,49 @@
-import { rule, not } from 'graphql-shield'
+import { rule } from 'graphql-shield'
 
+import { UnauthenticatedError } from '@nextq/errors/api'
+
+// UNAUTHENTICATED tells clients to refresh their tokens & retry
 export const isAuthenticated = rule()(
-  (_, __, { user }): boolean => user !== null
+  (_, __, { user }): boolean | UnauthenticatedError =>
+    user !== null || new UnauthenticatedError()
+)
+
+// not() passes errors through so it can't negate isAuthenticated
+export const notAuthenticated = rule()(
+  (_, __, { user }): boolean => user === null
 )
 
-export const notAuthenticated = not(isAuthenticated)
+/**
+ * Builds rule allowing users with the given role.
+ * Checks the role claims of the access token so no DB lookup is needed
+ * @param role name of the required role
+ * @returns shield rule
+ */
+export const hasRole = (
+  role: string
+): ReturnType<ReturnType<typeof rule>> =>
+  rule(`hasRole-${role}`)(
+    (_, __, { user, roles }): boolean =>
+      user !== null && roles.includes(role)
+  )
+
+/**
+ * Builds rule allowing users with at least one of the given roles
+ * @param roles names of the accepted roles
+ * @returns shield rule
+ */
+export const hasAnyRole = (
+  ...roles: string[]
+): ReturnType<ReturnType<typeof rule>> =>
+  rule(`hasAnyRole-${roles.join('-')}`)(
+    (_, __, { user, roles: granted }): boolean =>
+      user !== null &&
+      roles.some((role): boolean => granted.includes(role))
+  )
+
+export const isAdmin = hasRole('admin')
+
+export const isVerified = rule()(
+  (_, __, { user }): boolean =>
+    user !== null && user.emailVerified === true
+)
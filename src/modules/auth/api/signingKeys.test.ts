@@ -0,0 +1,58 @@
+import {
+  generateKeySetSigner,
+  keySetIssuer,
+  SigningKeyJwk
+} from './signingKeys'
+
+// throwaway keys only signing tokens within the tests
+const testKeys: SigningKeyJwk[] = [
+  {
+    kid: 'ES256',
+    alg: 'ES256',
+    kty: 'EC',
+    crv: 'P-256',
+    x: '7s6jXaVSyA2babL-_DW3dObXEKYxMpCrN7GJw80ftWc',
+    y: 'vmrN9TJPw_0wN3X6YA-wN-nqHNVt-E2IqO3adNYSWK8',
+    d: 'PvsL4mWrfr3fLRrMMLK3t6lDlsVhaD6uhgWy4atYcoU'
+  },
+  {
+    kid: 'EdDSA',
+    alg: 'EdDSA',
+    kty: 'OKP',
+    crv: 'Ed25519',
+    x: 'cA9fAWIm5bakku43Asr0v017H7qEp2-BZUeKlxhItUE',
+    d: 'Jw_nvcri7QKjhX9DuPYngXTbbF7JJbPZJvfmN8siqqQ'
+  }
+]
+
+describe('generateKeySetSigner', (): void => {
+  testKeys.forEach((key): void => {
+    it(`claims & checks the issuer of ${key.alg} tokens`, (): void => {
+      const jwks = [key]
+      const issuer = keySetIssuer(
+        'https://app.example.com/'
+      )
+      const signer = generateKeySetSigner(jwks, issuer)
+
+      const token = signer.sign({ userId: '1' }, 60)
+
+      expect(signer.verify(token).iss).toBe(
+        'https://app.example.com/api'
+      )
+      expect((): void => {
+        generateKeySetSigner(
+          jwks,
+          'https://other.example.com/api'
+        ).verify(token)
+      }).toThrow('jwt issuer invalid')
+      expect((): void => {
+        generateKeySetSigner(jwks, issuer).verify(
+          generateKeySetSigner(jwks).sign(
+            { userId: '1' },
+            60
+          )
+        )
+      }).toThrow('jwt issuer invalid')
+    })
+  })
+})
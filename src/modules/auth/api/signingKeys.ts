@@ -0,0 +1,419 @@
+import { sign, verify, decode } from 'jsonwebtoken'
+import jwkToPem, { JWK } from 'jwk-to-pem'
+import {
+  createPrivateKey,
+  createPublicKey,
+  sign as signData,
+  verify as verifyData,
+  KeyObject
+} from 'crypto'
+import { IncomingMessage, ServerResponse } from 'http'
+
+/**
+ * Asymmetric algorithms tokens can be signed with
+ * @typedef SigningAlgorithm
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256' | 'EdDSA'
+
+/**
+ * Signing key in JWK format, keys without the private part can only verify tokens
+ * @typedef SigningKeyJwk
+ */
+export interface SigningKeyJwk {
+  kid: string
+  alg: SigningAlgorithm
+  kty: 'RSA' | 'EC' | 'OKP'
+  crv?: string
+  n?: string
+  e?: string
+  x?: string
+  y?: string
+  d?: string
+  p?: string
+  q?: string
+  dp?: string
+  dq?: string
+  qi?: string
+}
+
+/**
+ * Public part of a signing key as published in the JWKS
+ * @typedef PublicJwk
+ */
+export interface PublicJwk {
+  kid: string
+  alg: SigningAlgorithm
+  kty: 'RSA' | 'EC' | 'OKP'
+  use: 'sig'
+  crv?: string
+  n?: string
+  e?: string
+  x?: string
+  y?: string
+}
+
+/**
+ * Signs & verifies JWT tokens
+ * @typedef TokenSigner
+ */
+export interface TokenSigner {
+  /**
+   * Signs the data into a JWT token
+   * @param data claims encoded in the token
+   * @param expiresIn time in seconds for which the token is valid
+   * @returns JWT token
+   */
+  sign: (data: object, expiresIn: number) => string
+  /**
+   * Verifies the token's signature & expiration
+   * @param token token to verify
+   * @returns claims of the token, throws if it isn't valid
+   */
+  verify: (token: string) => Record<string, unknown>
+}
+
+/**
+ * Issuer of the tokens signed with the key set, discovery metadata is served under it
+ * @param appURL public url of the app
+ * @returns issuer url
+ */
+export const keySetIssuer = (appURL: string): string =>
+  `${appURL.replace(/\/+$/, '')}/api`
+
+/**
+ * Signs tokens with the current key of a key set & publishes the public keys
+ * @typedef KeySetSigner
+ */
+export interface KeySetSigner extends TokenSigner {
+  /**
+   * Public keys tokens can be verified with
+   * @returns JSON Web Key Set
+   */
+  jwks: () => { keys: PublicJwk[] }
+}
+
+/**
+ * Signing key ready to use with node's crypto
+ * @typedef LoadedKey
+ */
+interface LoadedKey {
+  kid: string
+  alg: SigningAlgorithm
+  publicJwk: PublicJwk
+  publicKey: string | KeyObject
+  privateKey: string | KeyObject | null
+}
+
+// DER prefixes which turn raw Ed25519 keys into SPKI & PKCS8 keys
+const ED25519_SPKI_PREFIX = Buffer.from(
+  '302a300506032b6570032100',
+  'hex'
+)
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  '302e020100300506032b657004220420',
+  'hex'
+)
+
+/**
+ * Encodes buffer as base64url without padding
+ * @param buffer data to encode
+ * @returns base64url string
+ */
+const base64url = (buffer: Buffer): string =>
+  buffer
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+
+/**
+ * Decodes base64url string
+ * @param encoded base64url string
+ * @returns decoded data
+ */
+const fromBase64url = (encoded: string): Buffer =>
+  Buffer.from(
+    encoded.replace(/-/g, '+').replace(/_/g, '/'),
+    'base64'
+  )
+
+/**
+ * Generates signer for tokens signed with a shared HMAC secret
+ * @param secret secret used to sign & verify tokens
+ * @returns token signer
+ */
+export const generateSecretSigner = (
+  secret: string
+): TokenSigner =>
+  Object.freeze({
+    sign: (data: object, expiresIn: number): string =>
+      sign(data, secret, { expiresIn }),
+    verify: (token: string): Record<string, unknown> =>
+      verify(token, secret, {
+        algorithms: ['HS256']
+      }) as Record<string, unknown>
+  })
+
+/**
+ * Checks the key & converts it into keys node's crypto can use
+ * @param jwk signing key in JWK format
+ * @returns key ready to sign & verify tokens
+ */
+const loadKey = (jwk: SigningKeyJwk): LoadedKey => {
+  const { kid, alg, kty, crv, n, e, x, y, d } = jwk
+  if (!kid) throw new Error('Signing keys need a kid')
+
+  if (alg === 'EdDSA') {
+    if (kty !== 'OKP' || crv !== 'Ed25519' || !x)
+      throw new Error(`Key ${kid} isn't an Ed25519 key`)
+
+    return {
+      kid,
+      alg,
+      publicJwk: { kid, alg, kty, crv, x, use: 'sig' },
+      publicKey: createPublicKey({
+        key: Buffer.concat([
+          ED25519_SPKI_PREFIX,
+          fromBase64url(x)
+        ]),
+        format: 'der',
+        type: 'spki'
+      }),
+      privateKey: d
+        ? createPrivateKey({
+            key: Buffer.concat([
+              ED25519_PKCS8_PREFIX,
+              fromBase64url(d)
+            ]),
+            format: 'der',
+            type: 'pkcs8'
+          })
+        : null
+    }
+  }
+
+  if (alg === 'ES256') {
+    if (kty !== 'EC' || crv !== 'P-256' || !x || !y)
+      throw new Error(`Key ${kid} isn't a P-256 key`)
+
+    const publicJwk: PublicJwk = {
+      kid,
+      alg,
+      kty,
+      crv,
+      x,
+      y,
+      use: 'sig'
+    }
+
+    return {
+      kid,
+      alg,
+      publicJwk,
+      publicKey: jwkToPem(publicJwk as JWK),
+      privateKey: d
+        ? jwkToPem(jwk as JWK, { private: true })
+        : null
+    }
+  }
+
+  if (alg === 'RS256') {
+    if (kty !== 'RSA' || !n || !e)
+      throw new Error(`Key ${kid} isn't an RSA key`)
+
+    const publicJwk: PublicJwk = {
+      kid,
+      alg,
+      kty,
+      n,
+      e,
+      use: 'sig'
+    }
+
+    return {
+      kid,
+      alg,
+      publicJwk,
+      publicKey: jwkToPem(publicJwk as JWK),
+      privateKey: d
+        ? jwkToPem(jwk as JWK, { private: true })
+        : null
+    }
+  }
+
+  throw new Error(
+    `Key ${kid} uses unsupported algorithm ${alg}`
+  )
+}
+
+/**
+ * Signs EdDSA tokens, which jsonwebtoken doesn't support
+ * @param data claims encoded in the token
+ * @param expiresIn time in seconds for which the token is valid
+ * @param key key to sign the token with
+ * @param issuer issuer claimed by the token, left out when empty
+ * @returns JWT token
+ */
+const signEdDsa = (
+  data: object,
+  expiresIn: number,
+  { kid, privateKey }: LoadedKey,
+  issuer?: string
+): string => {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64url(
+    Buffer.from(
+      JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid })
+    )
+  )
+  const payload = base64url(
+    Buffer.from(
+      JSON.stringify({
+        ...data,
+        ...(issuer ? { iss: issuer } : {}),
+        iat: now,
+        exp: now + expiresIn
+      })
+    )
+  )
+  const signature = signData(
+    null,
+    Buffer.from(`${header}.${payload}`),
+    privateKey as KeyObject
+  )
+
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+/**
+ * Verifies EdDSA tokens, which jsonwebtoken doesn't support
+ * @param token token to verify
+ * @param key key to verify the token with
+ * @param issuer issuer the token has to claim, not checked when empty
+ * @returns claims of the token, throws if it isn't valid
+ */
+const verifyEdDsa = (
+  token: string,
+  { publicKey }: LoadedKey,
+  issuer?: string
+): Record<string, unknown> => {
+  const [header, payload, signature = ''] = token.split('.')
+
+  if (
+    !verifyData(
+      null,
+      Buffer.from(`${header}.${payload}`),
+      publicKey as KeyObject,
+      fromBase64url(signature)
+    )
+  )
+    throw new Error('invalid signature')
+
+  const claims = JSON.parse(
+    fromBase64url(payload).toString()
+  )
+  if (
+    typeof claims.exp !== 'number' ||
+    claims.exp <= Date.now() / 1000
+  )
+    throw new Error('jwt expired')
+  if (issuer && claims.iss !== issuer)
+    throw new Error(
+      `jwt issuer invalid. expected: ${issuer}`
+    )
+
+  return claims
+}
+
+/**
+ * Generates signer for tokens signed with asymmetric keys.
+ * The first key with a private part signs new tokens, the others only verify tokens,
+ * so keys can be rotated by adding the new key first & dropping the old one once its tokens expired
+ * @param jwks signing keys in JWK format, newest first
+ * @param issuer issuer claimed by the tokens & required when verifying them, see `keySetIssuer`
+ * @returns key set signer
+ */
+export const generateKeySetSigner = (
+  jwks: SigningKeyJwk[],
+  issuer?: string
+): KeySetSigner => {
+  const keys = jwks.map(loadKey)
+  const signingKey = keys.find(
+    ({ privateKey }): boolean => privateKey !== null
+  )
+  if (!signingKey)
+    throw new Error('No signing key has a private part')
+
+  const signToken = (
+    data: object,
+    expiresIn: number
+  ): string =>
+    signingKey.alg === 'EdDSA'
+      ? signEdDsa(data, expiresIn, signingKey, issuer)
+      : sign(data, signingKey.privateKey as string, {
+          algorithm: signingKey.alg,
+          expiresIn,
+          keyid: signingKey.kid,
+          ...(issuer ? { issuer } : {})
+        })
+
+  const verifyToken = (
+    token: string
+  ): Record<string, unknown> => {
+    const decoded = decode(token, { complete: true }) as {
+      header: { kid?: string; alg?: string }
+    } | null
+    const key =
+      decoded &&
+      keys.find(
+        ({ kid }): boolean => kid === decoded.header.kid
+      )
+    if (!key || !decoded || decoded.header.alg !== key.alg)
+      throw new Error('Unknown signing key')
+
+    return key.alg === 'EdDSA'
+      ? verifyEdDsa(token, key, issuer)
+      : (verify(token, key.publicKey as string, {
+          algorithms: [key.alg],
+          ...(issuer ? { issuer } : {})
+        }) as Record<string, unknown>)
+  }
+
+  const jwksDocument = (): { keys: PublicJwk[] } => ({
+    keys: keys.map(({ publicJwk }): PublicJwk => publicJwk)
+  })
+
+  return Object.freeze({
+    sign: signToken,
+    verify: verifyToken,
+    jwks: jwksDocument
+  })
+}
+
+/**
+ * Path the public signing keys are served at, Next only routes handlers under `/api`
+ */
+export const JWKS_PATH = '/api/.well-known/jwks.json'
+
+/**
+ * Generates handler serving the public signing keys as a JSON Web Key Set
+ * @param signer key set signer, no keys are published without one
+ * @returns request handler
+ */
+export const generateJwksHandler = (
+  signer: KeySetSigner | null
+): ((
+  req: IncomingMessage,
+  res: ServerResponse
+) => void) => (
+  req: IncomingMessage,
+  res: ServerResponse
+): void => {
+  const body = signer ? signer.jwks() : { keys: [] }
+
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'application/json')
+  // verifiers refetch the keys at least this often to pick up rotations
+  res.setHeader('Cache-Control', 'public, max-age=300')
+  res.end(JSON.stringify(body))
+}
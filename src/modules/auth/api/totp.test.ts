@@ -0,0 +1,155 @@
+import { ObjectID } from 'mongodb'
+
+import {
+  generateFakeCollection,
+  asEntity
+} from '@nextq/testing/fakeCollection'
+
+import {
+  generateUserModel,
+  User,
+  UserModel
+} from './models'
+import {
+  findTotpStep,
+  generateRecoveryCodes,
+  verifySecondFactorCode
+} from './totp'
+import { hashToken } from './utils'
+
+// RFC 6238 test secret "12345678901234567890" in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+/**
+ * Freezes the clock at the given time
+ * @param seconds unix time in seconds
+ */
+const freezeTime = (seconds: number): void => {
+  jest
+    .spyOn(Date, 'now')
+    .mockImplementation((): number => seconds * 1000)
+}
+
+afterEach((): void => {
+  jest.restoreAllMocks()
+})
+
+describe('findTotpStep', (): void => {
+  it('accepts the RFC 6238 codes for their time', (): void => {
+    freezeTime(59)
+    expect(findTotpStep(SECRET, '287082')).toBe(1)
+
+    freezeTime(1111111109)
+    expect(findTotpStep(SECRET, '081804')).toBe(37037036)
+
+    freezeTime(1234567890)
+    expect(findTotpStep(SECRET, ' 005924 ')).toBe(41152263)
+  })
+
+  it('accepts codes of the neighbouring time steps only', (): void => {
+    freezeTime(1111111109 + 30)
+    expect(findTotpStep(SECRET, '081804')).toBe(37037036)
+
+    freezeTime(1111111109 + 60)
+    expect(findTotpStep(SECRET, '081804')).toBeNull()
+  })
+
+  it('rejects wrong codes', (): void => {
+    freezeTime(59)
+    expect(findTotpStep(SECRET, '123456')).toBeNull()
+  })
+})
+
+describe('generateRecoveryCodes', (): void => {
+  it('generates distinct codes with their hashes', (): void => {
+    const { codes, hashes } = generateRecoveryCodes()
+
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    codes.forEach((code): void =>
+      expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/)
+    )
+    expect(hashes).toEqual(codes.map(hashToken))
+  })
+})
+
+describe('verifySecondFactorCode', (): void => {
+  /**
+   * Stores a user with 2FA enabled
+   * @param recoveryCodeHashes hashes of the user's recovery codes
+   * @returns users model & the stored user
+   */
+  const setup = (
+    recoveryCodeHashes: string[] = []
+  ): { users: UserModel; user: User } => {
+    const user: User = {
+      _id: new ObjectID(),
+      email: 'user@example.com',
+      passwordHash: '',
+      count: 0,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      totp: {
+        secret: SECRET,
+        enabled: true,
+        lastUsedStep: 0
+      },
+      recoveryCodeHashes
+    }
+
+    return {
+      users: generateUserModel(
+        asEntity(generateFakeCollection('users', [user]))
+      ),
+      user
+    }
+  }
+
+  it("doesn't accept a TOTP code twice", async (): Promise<
+    void
+  > => {
+    const { users, user } = setup()
+    freezeTime(59)
+
+    expect(
+      await verifySecondFactorCode(user, '287082', users)
+    ).toBe(true)
+    expect(
+      await verifySecondFactorCode(user, '287082', users)
+    ).toBe(false)
+  })
+
+  it('consumes recovery codes', async (): Promise<void> => {
+    const { codes, hashes } = generateRecoveryCodes()
+    const { users, user } = setup(hashes)
+
+    expect(
+      await verifySecondFactorCode(
+        user,
+        ` ${codes[0].toUpperCase()} `,
+        users
+      )
+    ).toBe(true)
+    expect(
+      await verifySecondFactorCode(user, codes[0], users)
+    ).toBe(false)
+    expect(
+      await verifySecondFactorCode(user, codes[1], users)
+    ).toBe(true)
+  })
+
+  it('rejects codes of users without 2FA', async (): Promise<
+    void
+  > => {
+    const { users, user } = setup()
+    freezeTime(59)
+
+    expect(
+      await verifySecondFactorCode(
+        { ...user, totp: null },
+        '287082',
+        users
+      )
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,186 @@
+import { createHmac, randomBytes } from 'crypto'
+
+import { User, UserModel } from './models'
+import { hashToken } from './utils'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// codes change every 30 seconds
+const TOTP_PERIOD = 30
+const TOTP_DIGITS = 6
+// accepts codes from one period before & after to allow for clock drift
+const TOTP_WINDOW = 1
+
+const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Encodes buffer as RFC 4648 base32 without padding
+ * @param buffer data to encode
+ * @returns base32 string
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = ''
+  buffer.forEach((byte): void => {
+    bits += byte.toString(2).padStart(8, '0')
+  })
+
+  let encoded = ''
+  for (let i = 0; i < bits.length; i += 5)
+    encoded +=
+      BASE32_ALPHABET[
+        parseInt(bits.substr(i, 5).padEnd(5, '0'), 2)
+      ]
+
+  return encoded
+}
+
+/**
+ * Decodes RFC 4648 base32 string
+ * @param encoded base32 string
+ * @returns decoded data
+ */
+const base32Decode = (encoded: string): Buffer => {
+  let bits = ''
+  encoded
+    .toUpperCase()
+    .replace(/=+$/, '')
+    .split('')
+    .forEach((char): void => {
+      const value = BASE32_ALPHABET.indexOf(char)
+      if (value === -1)
+        throw new Error('Invalid base32 character')
+      bits += value.toString(2).padStart(5, '0')
+    })
+
+  const bytes = []
+  for (let i = 0; i + 8 <= bits.length; i += 8)
+    bytes.push(parseInt(bits.substr(i, 8), 2))
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generates HOTP code for the given counter as described in RFC 4226
+ * @param secret base32 encoded secret
+ * @param counter counter to generate code for
+ * @returns zero padded code
+ */
+const hotp = (secret: string, counter: number): string => {
+  const message = Buffer.alloc(8)
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0)
+  message.writeUInt32BE(counter % 2 ** 32, 4)
+
+  const digest = createHmac('sha1', base32Decode(secret))
+    .update(message)
+    .digest()
+  const offset = digest[digest.length - 1] & 0xf
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(
+    TOTP_DIGITS,
+    '0'
+  )
+}
+
+/**
+ * Time step used for TOTP codes at the given time
+ * @param at time to get the step for
+ * @returns TOTP time step
+ */
+const timeStep = (at: number = Date.now()): number =>
+  Math.floor(at / 1000 / TOTP_PERIOD)
+
+/**
+ * Generates random secret for a TOTP authenticator
+ * @returns base32 encoded secret
+ */
+export const generateTotpSecret = (): string =>
+  base32Encode(randomBytes(20))
+
+/**
+ * Builds otpauth uri which authenticator apps read from QR codes
+ * @param secret base32 encoded secret
+ * @param email email of the user the secret belongs to
+ * @param issuer name of the app shown in authenticator apps
+ * @returns otpauth uri
+ */
+export const generateTotpUri = (
+  secret: string,
+  email: string,
+  issuer: string
+): string =>
+  `otpauth://totp/${encodeURIComponent(
+    `${issuer}:${email}`
+  )}?secret=${secret}&issuer=${encodeURIComponent(
+    issuer
+  )}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`
+
+/**
+ * Finds the time step the TOTP code was generated for
+ * @param secret base32 encoded secret
+ * @param code code entered by the user
+ * @returns matching time step, `null` if the code isn't valid right now
+ */
+export const findTotpStep = (
+  secret: string,
+  code: string
+): number | null => {
+  const current = timeStep()
+
+  for (
+    let step = current - TOTP_WINDOW;
+    step <= current + TOTP_WINDOW;
+    step++
+  )
+    if (hotp(secret, step) === code.trim()) return step
+
+  return null
+}
+
+/**
+ * Generates new set of recovery codes
+ * @returns recovery codes to show the user & their hashes to store
+ */
+export const generateRecoveryCodes = (): {
+  codes: string[]
+  hashes: string[]
+} => {
+  const codes = Array.from(
+    { length: RECOVERY_CODE_COUNT },
+    (): string =>
+      randomBytes(5)
+        .toString('hex')
+        .replace(/(.{5})/, '$1-')
+  )
+
+  return {
+    codes,
+    hashes: codes.map(hashToken)
+  }
+}
+
+/**
+ * Checks TOTP or recovery code of a user with 2FA enabled, consuming it
+ * @param user user info from DB
+ * @param code TOTP or recovery code entered by the user
+ * @param users Users Collection model
+ * @returns whether the code was valid
+ */
+export const verifySecondFactorCode = async (
+  user: User,
+  code: string,
+  users: UserModel
+): Promise<boolean> => {
+  const { totp } = user
+  if (!totp || !totp.enabled) return false
+
+  const step = findTotpStep(totp.secret, code)
+  if (step !== null)
+    // each code can only be used once
+    return users.useTotpStep(user._id.toHexString(), step)
+
+  return users.useRecoveryCode(
+    user._id.toHexString(),
+    hashToken(code.trim().toLowerCase())
+  )
+}
@@ -4,38 +4,112 @@ import {
   booleanArg,
   asNexusMethod,
   queryField,
-  mutationField
+  mutationField,
+  idArg,
+  intArg,
+  arg,
+  unionType,
+  enumType,
+  subscriptionField
 } from 'nexus'
-import { EmailAddress } from 'graphql-scalars'
+import { EmailAddress, DateTime } from 'graphql-scalars'
 import {
   ServerResponse as Response,
-  ClientRequest as Request
+  IncomingMessage as Request
 } from 'http'
-import { ObjectId } from 'bson'
+import { allow } from 'graphql-shield'
+import { parse as parseUrl } from 'url'
+import { compare } from 'bcryptjs'
+import { ObjectID } from 'mongodb'
 
-import { UserModel, User as UserType } from './models'
+import { PubSub } from '@nextq/pubsub/api'
+
+import {
+  AuthModels,
+  User as UserType,
+  Session as SessionType,
+  SessionRevokedEvent,
+  isSessionRevoked,
+  SecurityEvent as SecurityEventRecord,
+  SecurityEventPage,
+  SecurityEventType as SecurityEventKind,
+  SECURITY_EVENT_TYPES
+} from './models'
 import {
   TokenGenerator,
   getValidatedUser,
-  signInHelper
+  signInHelper,
+  generateSingleUseToken,
+  hashToken,
+  rotateSession,
+  signInWithNewSession,
+  isDisabled,
+  recordAuditEvent,
+  ClientInfo
 } from './utils'
+import { Mailer } from './mailer'
+import { PasswordPolicy } from './passwordPolicy'
+import { AuthCookies } from './cookies'
+import {
+  AppError,
+  UnauthenticatedError
+} from '@nextq/errors/api'
+
+import {
+  EmailTakenError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  InvalidCodeError
+} from './errors'
+import {
+  generateTotpSecret,
+  generateTotpUri,
+  findTotpStep,
+  generateRecoveryCodes,
+  verifySecondFactorCode
+} from './totp'
+import {
+  LoginLimiter,
+  LoginAttempt as LoginAttemptType
+} from './loginLimiter'
 import { NexusGenRootTypes } from 'auth/generated/auth.schema-types'
 import {
   isAuthenticated,
-  notAuthenticated
+  notAuthenticated,
+  isAdmin
 } from './permissionRules'
 
 export interface AuthContext {
   res: Response
   req: Request
-  models: {
-    users: UserModel
-  }
+  models: AuthModels
   user: UserType | null
+  sessionId: string | null
+  /** role claims of the access token used for the request */
+  roles: string[]
   tokenGenerator: TokenGenerator
+  mailer: Mailer
+  appURL: string
+  loginLimiter: LoginLimiter
+  passwordPolicy: PasswordPolicy
+  authCookies: AuthCookies
+  /** false when the request is authenticated by cookie without a matching csrf token */
+  csrfVerified: boolean
+  /** device info of the client making the request */
+  client: ClientInfo
+  pubSub: PubSub
 }
 
+// reset tokens are valid for 1 hour
+const PASSWORD_RESET_TTL = 1000 * 60 * 60
+// verification tokens are valid for 1 day
+const EMAIL_VERIFICATION_TTL = 1000 * 60 * 60 * 24
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
 const Email = asNexusMethod(EmailAddress, 'email')
+const DateTimeScalar = asNexusMethod(DateTime, 'dateTime')
 
 const User = objectType({
   name: 'User',
@@ -45,9 +119,355 @@ const User = objectType({
       description: "User's email"
     })
     t.int('count')
+    t.boolean('emailVerified', {
+      description: "Whether user's email has been verified"
+    })
+    t.dateTime('emailVerifiedAt', {
+      description: "When user's email was verified",
+      nullable: true
+    })
+    t.boolean('totpEnabled', {
+      description:
+        'Whether user signs in with a second factor'
+    })
+    t.list.string('roles', {
+      description: 'Roles granted to the user'
+    })
+    t.boolean('disabled', {
+      description: 'Whether an admin disabled the account'
+    })
+    t.dateTime('createdAt', {
+      description: 'When the user signed up'
+    })
+  }
+})
+
+/**
+ * Maps user from DB to the GraphQL User type
+ * @param user user info from DB
+ * @returns user info for the GraphQL User type
+ */
+const toUserRoot = (
+  user: UserType
+): NexusGenRootTypes['User'] => ({
+  ...user,
+  id: user._id.toString(),
+  // users created before verification existed lack these fields
+  emailVerified: Boolean(user.emailVerified),
+  emailVerifiedAt: user.emailVerifiedAt || null,
+  totpEnabled: !!user.totp && user.totp.enabled,
+  roles: user.roles || [],
+  disabled: isDisabled(user),
+  createdAt: user._id.getTimestamp()
+})
+
+/**
+ * Sends an email verification link to the given user
+ * @param user user to verify the email of
+ * @param ctx context with models, mailer & app url
+ */
+const sendVerificationEmailTo = async (
+  user: UserType,
+  { models, mailer, appURL }: AuthContext
+): Promise<void> => {
+  const { token, tokenHash } = generateSingleUseToken()
+  await models.users.setEmailVerificationToken(
+    user._id.toHexString(),
+    tokenHash,
+    new Date(Date.now() + EMAIL_VERIFICATION_TTL)
+  )
+
+  await mailer.send({
+    to: user.email,
+    subject: 'Verify your email',
+    text: `Use the link below to verify your email. It expires in 24 hours.\n\n${appURL}/verify-email?token=${token}`
+  })
+}
+
+/**
+ * Device the user is signed in on
+ */
+const Session = objectType({
+  name: 'Session',
+  description: 'Device the user is signed in on',
+  definition(t): void {
+    t.id('id', { description: 'Id of the session' })
+    t.string('userAgent', {
+      description: 'User agent of the device'
+    })
+    t.string('ip', { description: 'IP of the device' })
+    t.dateTime('createdAt', {
+      description: 'When the user signed in'
+    })
+    t.dateTime('lastUsedAt', {
+      description: 'When tokens were last refreshed'
+    })
+    t.boolean('current', {
+      description: 'Whether the request was made with it'
+    })
+  }
+})
+
+/**
+ * Maps session from DB to the GraphQL Session type
+ * @param session session info from DB
+ * @param currentId id of the session used for the request
+ * @returns session info for the GraphQL Session type
+ */
+const toSessionRoot = (
+  session: SessionType,
+  currentId: string | null
+): NexusGenRootTypes['Session'] => ({
+  ...session,
+  id: session._id.toString(),
+  current: session._id.toHexString() === currentId
+})
+
+/**
+ * Email or client ip which is blocked from signing in
+ */
+const LoginLockout = objectType({
+  name: 'LoginLockout',
+  description:
+    'Email or client ip which is blocked from signing in',
+  definition(t): void {
+    t.string('key', {
+      description:
+        'Locked email or ip, prefixed with its kind'
+    })
+    t.int('failures', {
+      description: 'Failed attempts since the last success'
+    })
+    t.dateTime('lastFailureAt')
+    t.dateTime('lockedUntil')
+  }
+})
+
+/**
+ * Maps login attempt from the limiter to the GraphQL LoginLockout type
+ * @param attempt attempts info from the limiter
+ * @returns lockout info for the GraphQL LoginLockout type
+ */
+const toLoginLockoutRoot = (
+  attempt: LoginAttemptType
+): NexusGenRootTypes['LoginLockout'] => ({
+  ...attempt,
+  key: attempt._id
+})
+
+/**
+ * Order in which lists are sorted
+ */
+const SortOrder = enumType({
+  name: 'SortOrder',
+  description: 'Order in which lists are sorted',
+  members: ['ASC', 'DESC']
+})
+
+/**
+ * Info about the fetched page of a connection
+ */
+const PageInfo = objectType({
+  name: 'PageInfo',
+  description:
+    'Info about the fetched page of a connection',
+  definition(t): void {
+    t.string('endCursor', {
+      description: 'Cursor to fetch the next page after',
+      nullable: true
+    })
+    t.boolean('hasNextPage')
   }
 })
 
+/**
+ * User along with its cursor in the list
+ */
+const UserEdge = objectType({
+  name: 'UserEdge',
+  description: 'User along with its cursor in the list',
+  definition(t): void {
+    t.string('cursor')
+    t.field('node', { type: User })
+  }
+})
+
+/**
+ * Page of users
+ */
+const UserConnection = objectType({
+  name: 'UserConnection',
+  description: 'Page of users',
+  definition(t): void {
+    t.list.field('edges', { type: UserEdge })
+    t.field('pageInfo', { type: PageInfo })
+  }
+})
+
+/**
+ * Kind of event recorded in the audit log
+ */
+const AuditEventType = enumType({
+  name: 'AuditEventType',
+  description: 'Kind of event recorded in the audit log',
+  members: SECURITY_EVENT_TYPES
+})
+
+/**
+ * Security relevant event recorded in the audit log
+ */
+const AuditEvent = objectType({
+  name: 'AuditEvent',
+  description:
+    'Security relevant event recorded in the audit log',
+  definition(t): void {
+    t.id('id', { description: 'Id of the event' })
+    t.field('type', { type: AuditEventType })
+    t.id('userId', {
+      description:
+        'User the event is about, null for sign ins with unknown emails',
+      nullable: true
+    })
+    t.string('email', {
+      description: 'Email given when signing in or up',
+      nullable: true
+    })
+    t.id('sessionId', {
+      description: 'Session the event happened in',
+      nullable: true
+    })
+    t.string('userAgent', {
+      description: 'User agent of the device'
+    })
+    t.string('ip', { description: 'IP of the device' })
+    t.dateTime('createdAt', {
+      description: 'When the event happened'
+    })
+  }
+})
+
+/**
+ * Audit event along with its cursor in the list
+ */
+const AuditEventEdge = objectType({
+  name: 'AuditEventEdge',
+  description:
+    'Audit event along with its cursor in the list',
+  definition(t): void {
+    t.string('cursor')
+    t.field('node', { type: AuditEvent })
+  }
+})
+
+/**
+ * Page of audit events
+ */
+const AuditEventConnection = objectType({
+  name: 'AuditEventConnection',
+  description: 'Page of audit events',
+  definition(t): void {
+    t.list.field('edges', { type: AuditEventEdge })
+    t.field('pageInfo', { type: PageInfo })
+  }
+})
+
+/**
+ * Maps page of events from DB to the GraphQL AuditEventConnection type
+ * @param page events & whether more follow
+ * @returns page for the GraphQL AuditEventConnection type
+ */
+const toAuditEventConnection = ({
+  events,
+  hasNextPage
+}: SecurityEventPage): NexusGenRootTypes['AuditEventConnection'] => {
+  const edges = events.map(
+    (
+      event: SecurityEventRecord
+    ): NexusGenRootTypes['AuditEventEdge'] => ({
+      cursor: event._id.toHexString(),
+      node: {
+        ...event,
+        id: event._id.toHexString(),
+        userId: event.userId
+          ? event.userId.toHexString()
+          : null,
+        sessionId: event.sessionId
+          ? event.sessionId.toHexString()
+          : null
+      }
+    })
+  )
+
+  return {
+    edges,
+    pageInfo: {
+      endCursor: edges.length
+        ? edges[edges.length - 1].cursor
+        : null,
+      hasNextPage
+    }
+  }
+}
+
+/**
+ * Keeps the requested page size within bounds
+ * @param first requested page size
+ * @returns page size to fetch
+ */
+const toPageSize = (first?: number | null): number =>
+  Math.min(
+    Math.max(first || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  )
+
+/**
+ * Rejects ids which aren't ObjectIDs before they reach the DB
+ * @param id id from the args
+ * @param argument name of the arg, sent along with the error
+ */
+const assertObjectId = (
+  id: string,
+  argument: string
+): void => {
+  if (!ObjectID.isValid(id))
+    throw new AppError('BAD_USER_INPUT', { argument })
+}
+
+/**
+ * Trims the role so granting & taking it away match the same stored value
+ * @param role role from the args
+ * @returns trimmed role
+ */
+const normalizeRole = (role: string): string => {
+  const trimmed = role.trim()
+  if (!trimmed)
+    throw new AppError('BAD_USER_INPUT', {
+      argument: 'role'
+    })
+
+  return trimmed
+}
+
+/**
+ * Looks up the user an admin operation is about
+ * @param id id from the args
+ * @param argument name of the arg, sent along with the errors
+ * @param models Data model
+ * @returns user with the id
+ */
+const findTargetUser = async (
+  id: string,
+  argument: string,
+  models: AuthModels
+): Promise<UserType> => {
+  assertObjectId(id, argument)
+
+  const user = await models.users.findUserById(id)
+  if (!user) throw new AppError('NOT_FOUND', { argument })
+
+  return user
+}
+
 /**
  * Payload sent to users after successful authentication
  */
@@ -62,6 +482,56 @@ const AuthPayload = objectType({
   }
 })
 
+/**
+ * Challenge sent to users with 2FA enabled after their password was validated
+ */
+const SecondFactorChallenge = objectType({
+  name: 'SecondFactorChallenge',
+  description:
+    'Challenge sent to users with 2FA enabled after their password was validated',
+  definition(t): void {
+    t.string('challenge', {
+      description:
+        'Short-lived token to pass to verifySecondFactor'
+    })
+  }
+})
+
+/**
+ * Result of signing in, tokens or a challenge for the second factor
+ */
+const SignInResult = unionType({
+  name: 'SignInResult',
+  description:
+    'Result of signing in, tokens or a challenge for the second factor',
+  definition(t): void {
+    t.members(AuthPayload, SecondFactorChallenge)
+    t.resolveType((item):
+      | 'AuthPayload'
+      | 'SecondFactorChallenge' =>
+      'challenge' in item
+        ? 'SecondFactorChallenge'
+        : 'AuthPayload'
+    )
+  }
+})
+
+/**
+ * Secret for setting up an authenticator app
+ */
+const TotpSetup = objectType({
+  name: 'TotpSetup',
+  description: 'Secret for setting up an authenticator app',
+  definition(t): void {
+    t.string('secret', {
+      description: 'Base32 secret for manual entry'
+    })
+    t.string('uri', {
+      description: 'otpauth uri to show as QR code'
+    })
+  }
+})
+
 /**
  * Returns the currently logged in used
  */
@@ -75,9 +545,7 @@ const meQuery = queryField('me', {
     { user }
   ): Promise<NexusGenRootTypes['User'] | null> {
     // checks context for user object otherwise returns null
-    return !user
-      ? null
-      : { ...user, id: user._id.toString() }
+    return !user ? null : toUserRoot(user)
   }
 })
 
@@ -96,27 +564,46 @@ const signUpMutation = mutationField('signUp', {
   resolve: async (
     _,
     { email, password, cookies = false },
-    { models, tokenGenerator, res }
+    ctx
   ): Promise<NexusGenRootTypes['AuthPayload'] | null> => {
-    // checks if the user already exists
-    const isUser = await models.users.isUser(email)
-    if (isUser)
-      throw new Error(`User with ${email} already exists`)
+    const {
+      models,
+      loginLimiter,
+      client,
+      passwordPolicy
+    } = ctx
+
+    // blocks sign ups from locked emails & clients
+    await loginLimiter.assertNotLocked(email, client.ip)
+
+    passwordPolicy.assertValid(password)
+
+    // taken emails count as failed attempts so probing for accounts is throttled
+    await loginLimiter.attempt(
+      email,
+      client.ip,
+      async (): Promise<void> => {
+        if (await models.users.isUser(email))
+          throw new EmailTakenError()
+      }
+    )
 
     // creates brand new user
-    const { count, _id } = await models.users.createNewUser(
+    const user = await models.users.createNewUser(
       email,
       password
     )
+    await recordAuditEvent(models, client, {
+      type: 'SIGN_UP',
+      userId: user._id.toHexString(),
+      email
+    })
+
+    // sends out link so the new user can verify their email
+    await sendVerificationEmailTo(user, ctx)
 
     // generates tokens to sign in the new user
-    return signInHelper(
-      _id,
-      count,
-      tokenGenerator,
-      res,
-      Boolean(cookies)
-    )
+    return signInWithNewSession(user, ctx, Boolean(cookies))
   }
 })
 
@@ -126,7 +613,7 @@ const signUpMutation = mutationField('signUp', {
 const signInMutation = mutationField('signIn', {
   description:
     'Allows existing user to sign in with their info',
-  type: AuthPayload,
+  type: SignInResult,
   nullable: true,
   args: {
     email: stringArg({ required: true }),
@@ -136,107 +623,1170 @@ const signInMutation = mutationField('signIn', {
   resolve: async (
     _,
     { email, password, cookies = false },
-    { models, res, tokenGenerator }
-  ): Promise<NexusGenRootTypes['AuthPayload'] | null> => {
-    // validates the user info is correct
-    const { _id, count } = await getValidatedUser(
-      email,
-      password,
-      models.users
-    )
+    ctx
+  ): Promise<NexusGenRootTypes['SignInResult'] | null> => {
+    const { client } = ctx
+
+    // validates the user info is correct, throttling failed attempts
+    const user = await ctx.loginLimiter
+      .attempt(
+        email,
+        client.ip,
+        (): Promise<UserType> =>
+          getValidatedUser(
+            email,
+            password,
+            ctx.models.users
+          )
+      )
+      .catch(
+        async (error): Promise<never> => {
+          // failures against existing accounts show up in their owner's log
+          const known = await ctx.models.users.findUserByEmail(
+            email
+          )
+          await recordAuditEvent(ctx.models, client, {
+            type: 'SIGN_IN_FAILED',
+            userId: known ? known._id.toHexString() : null,
+            email
+          })
+
+          throw error
+        }
+      )
+
+    // users with 2FA finish signing in with verifySecondFactor
+    if (user.totp && user.totp.enabled)
+      return {
+        challenge: ctx.tokenGenerator.challengeToken(
+          user._id.toHexString()
+        )
+      }
 
     // uses the validated user info to generate JWT tokens
-    return signInHelper(
-      _id,
-      count,
-      tokenGenerator,
-      res,
-      Boolean(cookies)
-    )
+    return signInWithNewSession(user, ctx, Boolean(cookies))
   }
 })
 
-const refreshTokensMutation = mutationField(
-  'refreshTokens',
+/**
+ * Completes sign in for users with 2FA using their TOTP or recovery code
+ */
+const verifySecondFactorMutation = mutationField(
+  'verifySecondFactor',
   {
     description:
-      'Allows existing user to get new access tokens with their refresh tokens',
+      'Completes sign in for users with 2FA using their TOTP or recovery code',
     type: AuthPayload,
     nullable: true,
     args: {
-      refreshToken: stringArg({ required: true })
+      challenge: stringArg({ required: true }),
+      code: stringArg({ required: true }),
+      cookies: booleanArg()
     },
     resolve: async (
       _,
-      { refreshToken },
-      { tokenGenerator, models }
+      { challenge, code, cookies = false },
+      ctx
     ): Promise<NexusGenRootTypes['AuthPayload'] | null> => {
-      const data = tokenGenerator.verifyRefreshToken(
-        refreshToken
+      const {
+        models,
+        tokenGenerator,
+        loginLimiter,
+        client
+      } = ctx
+
+      const userId = tokenGenerator.verifyChallengeToken(
+        challenge
       )
+      const user =
+        userId && (await models.users.findUserById(userId))
+      if (!user) throw new InvalidTokenError()
 
-      if (!!data) {
-        const user = await models.users.findUserById(
-          data.userId
+      // wrong codes count towards the same limits as wrong passwords
+      await loginLimiter
+        .attempt(
+          user.email,
+          client.ip,
+          async (): Promise<void> => {
+            if (
+              !(await verifySecondFactorCode(
+                user,
+                code,
+                models.users
+              ))
+            )
+              throw new InvalidCodeError()
+          }
         )
+        .catch(
+          async (error): Promise<never> => {
+            await recordAuditEvent(models, client, {
+              type: 'SIGN_IN_FAILED',
+              userId: user._id.toHexString(),
+              email: user.email
+            })
 
-        if (user && user.count == data.count)
-          return signInHelper(
-            new ObjectId(data.userId),
-            data.count,
-            tokenGenerator
-          )
-      }
+            throw error
+          }
+        )
 
-      return null
+      return signInWithNewSession(
+        user,
+        ctx,
+        Boolean(cookies)
+      )
     }
   }
 )
 
-const invalidateTokensMutation = mutationField(
-  'invalidateTokens',
+/**
+ * Generates a new TOTP secret for the current user to confirm with confirmTotp
+ */
+const enableTotpMutation = mutationField('enableTotp', {
+  description:
+    'Generates a new TOTP secret for the current user to confirm with confirmTotp',
+  type: TotpSetup,
+  nullable: false,
+  resolve: async (
+    _,
+    __,
+    { user, models, appURL }
+  ): Promise<NexusGenRootTypes['TotpSetup']> => {
+    if (!user) throw new UnauthenticatedError()
+    if (user.totp && user.totp.enabled)
+      throw new AppError('TOTP_ALREADY_ENABLED')
+
+    const secret = generateTotpSecret()
+    await models.users.setPendingTotpSecret(
+      user._id.toHexString(),
+      secret
+    )
+
+    return {
+      secret,
+      uri: generateTotpUri(
+        secret,
+        user.email,
+        parseUrl(appURL).hostname || 'nextq'
+      )
+    }
+  }
+})
+
+/**
+ * Turns on 2FA once the current user enters a code from their authenticator
+ */
+const confirmTotpMutation = mutationField('confirmTotp', {
+  description:
+    'Turns on 2FA once the current user enters a code from their authenticator, returns recovery codes',
+  type: 'String',
+  list: true,
+  nullable: false,
+  args: {
+    code: stringArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { code },
+    { user, models }
+  ): Promise<string[]> => {
+    if (!user || !user.totp || user.totp.enabled)
+      throw new AppError('TOTP_NOT_PENDING')
+
+    const step = findTotpStep(user.totp.secret, code)
+    if (step === null) throw new InvalidCodeError()
+
+    const { codes, hashes } = generateRecoveryCodes()
+    await models.users.enableTotp(
+      user._id.toHexString(),
+      step,
+      hashes
+    )
+
+    return codes
+  }
+})
+
+/**
+ * Turns off 2FA for the current user after checking their TOTP or recovery code
+ */
+const disableTotpMutation = mutationField('disableTotp', {
+  description:
+    'Turns off 2FA for the current user after checking their TOTP or recovery code',
+  type: 'Boolean',
+  nullable: false,
+  args: {
+    code: stringArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { code },
+    { user, models }
+  ): Promise<boolean> => {
+    if (
+      !user ||
+      !(await verifySecondFactorCode(
+        user,
+        code,
+        models.users
+      ))
+    )
+      throw new InvalidCodeError()
+
+    return models.users.disableTotp(user._id.toHexString())
+  }
+})
+
+/**
+ * Replaces the current user's recovery codes with new ones
+ */
+const regenerateRecoveryCodesMutation = mutationField(
+  'regenerateRecoveryCodes',
   {
     description:
-      "Invalidates existing user's refresh tokens",
-    type: 'Boolean',
+      "Replaces the current user's recovery codes with new ones",
+    type: 'String',
+    list: true,
     nullable: false,
     resolve: async (
       _,
       __,
       { user, models }
-    ): Promise<boolean> => {
-      if (user) {
-        return models.users.updateUser(
-          user._id.toHexString(),
-          {
-            $set: { count: user.count + 1 }
-          }
-        )
-      }
-      return false
+    ): Promise<string[]> => {
+      if (!user || !user.totp || !user.totp.enabled)
+        throw new AppError('TOTP_NOT_ENABLED')
+
+      const { codes, hashes } = generateRecoveryCodes()
+      await models.users.setRecoveryCodes(
+        user._id.toHexString(),
+        hashes
+      )
+
+      return codes
     }
   }
 )
 
-export const AuthTypes = {
+/**
+ * Sends a password reset link to the user with the given email
+ */
+const requestPasswordResetMutation = mutationField(
+  'requestPasswordReset',
+  {
+    description:
+      'Sends a password reset link to the user with the given email',
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      email: stringArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { email },
+      { models, mailer, appURL }
+    ): Promise<boolean> => {
+      const user = await models.users.findUserByEmail(email)
+
+      // always succeeds so registered emails can't be discovered
+      if (!user) return true
+
+      const { token, tokenHash } = generateSingleUseToken()
+      await models.users.setPasswordResetToken(
+        user._id.toHexString(),
+        tokenHash,
+        new Date(Date.now() + PASSWORD_RESET_TTL)
+      )
+
+      await mailer.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Use the link below to reset your password. It expires in 1 hour.\n\n${appURL}/reset-password?token=${token}`
+      })
+
+      return true
+    }
+  }
+)
+
+/**
+ * Sets a new password using a token from `requestPasswordReset`
+ */
+const resetPasswordMutation = mutationField(
+  'resetPassword',
+  {
+    description:
+      'Sets a new password using a token from requestPasswordReset',
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      token: stringArg({ required: true }),
+      newPassword: stringArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { token, newPassword },
+      { models, passwordPolicy, client }
+    ): Promise<boolean> => {
+      passwordPolicy.assertValid(newPassword)
+
+      const user = await models.users.resetPasswordWithToken(
+        hashToken(token),
+        newPassword
+      )
+      if (!user) throw new InvalidTokenError()
+
+      await recordAuditEvent(models, client, {
+        type: 'PASSWORD_CHANGED',
+        userId: user._id.toHexString()
+      })
+
+      // signs the user out everywhere with the old password
+      await models.sessions.revokeUserSessions(
+        user._id.toHexString()
+      )
+
+      return true
+    }
+  }
+)
+
+/**
+ * Changes the signed in user's password & signs them out on other devices
+ */
+const changePasswordMutation = mutationField(
+  'changePassword',
+  {
+    description:
+      "Changes the signed in user's password & signs them out on other devices",
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      currentPassword: stringArg({ required: true }),
+      newPassword: stringArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { currentPassword, newPassword },
+      {
+        user,
+        sessionId,
+        models,
+        passwordPolicy,
+        loginLimiter,
+        client
+      }
+    ): Promise<boolean> => {
+      if (!user) return false
+
+      // wrong passwords count towards the sign in limits
+      await loginLimiter.attempt(
+        user.email,
+        client.ip,
+        async (): Promise<void> => {
+          // users signed up through a provider have no password to check
+          const validPassword =
+            !!user.passwordHash &&
+            (await compare(
+              currentPassword,
+              user.passwordHash
+            ))
+          if (!validPassword)
+            throw new InvalidCredentialsError()
+        }
+      )
+
+      passwordPolicy.assertValid(newPassword)
+
+      const id = user._id.toHexString()
+      const updated = await models.users.setPassword(
+        id,
+        newPassword
+      )
+      if (updated) {
+        await recordAuditEvent(models, client, {
+          type: 'PASSWORD_CHANGED',
+          userId: id,
+          sessionId
+        })
+        await models.sessions.revokeUserSessions(
+          id,
+          sessionId || undefined
+        )
+      }
+
+      return updated
+    }
+  }
+)
+
+/**
+ * Sends a new verification link to the signed in user
+ */
+const sendVerificationEmailMutation = mutationField(
+  'sendVerificationEmail',
+  {
+    description:
+      'Sends a new verification link to the signed in user',
+    type: 'Boolean',
+    nullable: false,
+    resolve: async (_, __, ctx): Promise<boolean> => {
+      const { user } = ctx
+      if (!user || user.emailVerified) return false
+
+      await sendVerificationEmailTo(user, ctx)
+
+      return true
+    }
+  }
+)
+
+/**
+ * Verifies user's email using a token from the verification email
+ */
+const verifyEmailMutation = mutationField('verifyEmail', {
+  description:
+    "Verifies user's email using a token from the verification email",
+  type: User,
+  nullable: false,
+  args: {
+    token: stringArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { token },
+    { models }
+  ): Promise<NexusGenRootTypes['User']> => {
+    const user = await models.users.verifyEmailWithToken(
+      hashToken(token)
+    )
+    if (!user) throw new InvalidTokenError()
+
+    return toUserRoot(user)
+  }
+})
+
+const refreshTokensMutation = mutationField(
+  'refreshTokens',
+  {
+    description:
+      'Allows existing user to get new access tokens with their refresh tokens',
+    type: AuthPayload,
+    nullable: true,
+    args: {
+      refreshToken: stringArg({ required: true }),
+      cookies: booleanArg()
+    },
+    resolve: async (
+      _,
+      { refreshToken, cookies = false },
+      { tokenGenerator, models, client, res, authCookies }
+    ): Promise<NexusGenRootTypes['AuthPayload'] | null> => {
+      const data = tokenGenerator.verifyRefreshToken(
+        refreshToken
+      )
+
+      if (!!data) {
+        // each refresh token can only be exchanged once
+        const rotated = await rotateSession(
+          data,
+          models,
+          client
+        )
+
+        if (rotated)
+          return signInHelper(
+            rotated.user,
+            rotated.sessionId,
+            rotated.refreshTokenId,
+            tokenGenerator,
+            res,
+            // keeps the cookies in sync so the old refresh token isn't reused
+            cookies ? authCookies : undefined
+          )
+      }
+
+      return null
+    }
+  }
+)
+
+const invalidateTokensMutation = mutationField(
+  'invalidateTokens',
+  {
+    description:
+      "Invalidates existing user's refresh tokens on every device",
+    type: 'Boolean',
+    nullable: false,
+    resolve: async (
+      _,
+      __,
+      { user, sessionId, models, client }
+    ): Promise<boolean> => {
+      if (user) {
+        await models.sessions.revokeUserSessions(
+          user._id.toHexString()
+        )
+        await recordAuditEvent(models, client, {
+          type: 'TOKENS_INVALIDATED',
+          userId: user._id.toHexString(),
+          sessionId
+        })
+
+        return models.users.updateUser(
+          user._id.toHexString(),
+          {
+            $set: { count: user.count + 1 }
+          }
+        )
+      }
+      return false
+    }
+  }
+)
+
+/**
+ * Signs the current device out & clears the auth cookies
+ */
+const signOutMutation = mutationField('signOut', {
+  description:
+    'Signs the current device out & clears the auth cookies',
+  type: 'Boolean',
+  nullable: false,
+  resolve: async (
+    _,
+    __,
+    { user, sessionId, models, authCookies, res }
+  ): Promise<boolean> => {
+    authCookies.clear(res)
+
+    return (
+      !!user &&
+      !!sessionId &&
+      models.sessions.revokeSession(
+        sessionId,
+        user._id.toHexString()
+      )
+    )
+  }
+})
+
+/**
+ * Returns the devices the current user is signed in on
+ */
+const mySessionsQuery = queryField('mySessions', {
+  type: Session,
+  list: true,
+  description:
+    'Returns the devices the current user is signed in on',
+  async resolve(
+    _,
+    __,
+    { user, sessionId, models }
+  ): Promise<NexusGenRootTypes['Session'][]> {
+    if (!user) return []
+
+    const sessions = await models.sessions.findUserSessions(
+      user._id.toHexString()
+    )
+
+    return sessions.map(
+      (session): NexusGenRootTypes['Session'] =>
+        toSessionRoot(session, sessionId)
+    )
+  }
+})
+
+/**
+ * Lists the current user's audit events, newest first
+ */
+const myAuditLogQuery = queryField('myAuditLog', {
+  type: AuditEventConnection,
+  description:
+    "Lists the current user's audit events, newest first",
+  args: {
+    first: intArg({ default: DEFAULT_PAGE_SIZE }),
+    after: stringArg({
+      description:
+        'Cursor of the last event of the previous page'
+    })
+  },
+  async resolve(
+    _,
+    { first, after },
+    { user, models }
+  ): Promise<NexusGenRootTypes['AuditEventConnection']> {
+    if (after) assertObjectId(after, 'after')
+    if (!user)
+      return toAuditEventConnection({
+        events: [],
+        hasNextPage: false
+      })
+
+    return toAuditEventConnection(
+      await models.securityEvents.findEvents({
+        userId: user._id.toHexString(),
+        first: toPageSize(first),
+        after: after || undefined
+      })
+    )
+  }
+})
+
+/**
+ * Signs the current user out of the given session
+ */
+const revokeSessionMutation = mutationField(
+  'revokeSession',
+  {
+    description:
+      'Signs the current user out of the given session',
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      id: idArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { id },
+      { user, models }
+    ): Promise<boolean> =>
+      !!user &&
+      models.sessions.revokeSession(
+        id,
+        user._id.toHexString()
+      )
+  }
+)
+
+/**
+ * Signs the current user out of every session except the current one
+ */
+const revokeOtherSessionsMutation = mutationField(
+  'revokeOtherSessions',
+  {
+    description:
+      'Signs the current user out of every session except the current one',
+    type: 'Int',
+    nullable: false,
+    resolve: async (
+      _,
+      __,
+      { user, sessionId, models }
+    ): Promise<number> =>
+      user && sessionId
+        ? models.sessions.revokeUserSessions(
+            user._id.toHexString(),
+            sessionId
+          )
+        : 0
+  }
+)
+
+/**
+ * Returns all emails & client ips which are blocked from signing in
+ */
+const loginLockoutsQuery = queryField('loginLockouts', {
+  type: LoginLockout,
+  list: true,
+  description:
+    'Returns all emails & client ips which are blocked from signing in',
+  async resolve(
+    _,
+    __,
+    { loginLimiter }
+  ): Promise<NexusGenRootTypes['LoginLockout'][]> {
+    const lockouts = await loginLimiter.findLockouts()
+
+    return lockouts.map(toLoginLockoutRoot)
+  }
+})
+
+/**
+ * Returns the lockout for the given email, if it's blocked from signing in
+ */
+const loginLockoutQuery = queryField('loginLockout', {
+  type: LoginLockout,
+  nullable: true,
+  description:
+    "Returns the lockout for the given email, if it's blocked from signing in",
+  args: {
+    email: stringArg({ required: true })
+  },
+  async resolve(
+    _,
+    { email },
+    { loginLimiter }
+  ): Promise<NexusGenRootTypes['LoginLockout'] | null> {
+    const lockout = await loginLimiter.getLockout(email)
+
+    return lockout ? toLoginLockoutRoot(lockout) : null
+  }
+})
+
+/**
+ * Allows the given email to sign in again right away
+ */
+const clearLoginLockoutMutation = mutationField(
+  'clearLoginLockout',
+  {
+    description:
+      'Allows the given email to sign in again right away',
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      email: stringArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { email },
+      { loginLimiter }
+    ): Promise<boolean> => {
+      await loginLimiter.clearLockout(email)
+
+      return true
+    }
+  }
+)
+
+/**
+ * Grants role to the given user
+ */
+const assignRoleMutation = mutationField('assignRole', {
+  description:
+    'Grants role to the given user. Takes effect once their access token is refreshed',
+  type: 'User',
+  nullable: true,
+  args: {
+    userId: idArg({ required: true }),
+    role: stringArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { userId, role },
+    { models }
+  ): Promise<NexusGenRootTypes['User'] | null> => {
+    const normalized = normalizeRole(role)
+    await findTargetUser(userId, 'userId', models)
+    await models.users.addRole(userId, normalized)
+    const user = await models.users.findUserById(userId)
+
+    return user ? toUserRoot(user) : null
+  }
+})
+
+/**
+ * Takes role away from the given user
+ */
+const removeRoleMutation = mutationField('removeRole', {
+  description:
+    'Takes role away from the given user. Takes effect once their access token is refreshed',
+  type: 'User',
+  nullable: true,
+  args: {
+    userId: idArg({ required: true }),
+    role: stringArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { userId, role },
+    { user, models }
+  ): Promise<NexusGenRootTypes['User'] | null> => {
+    const normalized = normalizeRole(role)
+    // keeps admins from locking themselves out
+    if (
+      user &&
+      user._id.toHexString() === userId &&
+      normalized === 'admin'
+    )
+      throw new AppError('CANNOT_REMOVE_OWN_ADMIN')
+
+    await findTargetUser(userId, 'userId', models)
+    await models.users.removeRole(userId, normalized)
+    const found = await models.users.findUserById(userId)
+
+    return found ? toUserRoot(found) : null
+  }
+})
+
+/**
+ * Lists users by creation date, page by page
+ */
+const usersQuery = queryField('users', {
+  type: UserConnection,
+  description: 'Lists users by creation date, page by page',
+  args: {
+    first: intArg({ default: DEFAULT_PAGE_SIZE }),
+    after: stringArg({
+      description:
+        'Cursor of the last user of the previous page'
+    }),
+    search: stringArg({
+      description: 'Part of the email to search for'
+    }),
+    order: arg({ type: SortOrder, default: 'DESC' })
+  },
+  async resolve(
+    _,
+    { first, after, search, order },
+    { models }
+  ): Promise<NexusGenRootTypes['UserConnection']> {
+    if (after) assertObjectId(after, 'after')
+
+    const {
+      users,
+      hasNextPage
+    } = await models.users.findUsers({
+      first: toPageSize(first),
+      after: after || undefined,
+      search: search || undefined,
+      order: order === 'ASC' ? 'ASC' : 'DESC'
+    })
+    const edges = users.map(
+      (user): NexusGenRootTypes['UserEdge'] => ({
+        cursor: user._id.toHexString(),
+        node: toUserRoot(user)
+      })
+    )
+
+    return {
+      edges,
+      pageInfo: {
+        endCursor: edges.length
+          ? edges[edges.length - 1].cursor
+          : null,
+        hasNextPage
+      }
+    }
+  }
+})
+
+/**
+ * Looks up user with the given id
+ */
+const userQuery = queryField('user', {
+  type: User,
+  nullable: true,
+  description: 'Looks up user with the given id',
+  args: {
+    id: idArg({ required: true })
+  },
+  async resolve(
+    _,
+    { id },
+    { models }
+  ): Promise<NexusGenRootTypes['User'] | null> {
+    assertObjectId(id, 'id')
+
+    const user = await models.users.findUserById(id)
+
+    return user ? toUserRoot(user) : null
+  }
+})
+
+/**
+ * Lists audit events of every user, newest first
+ */
+const auditLogQuery = queryField('auditLog', {
+  type: AuditEventConnection,
+  description:
+    'Lists audit events of every user, newest first',
+  args: {
+    first: intArg({ default: DEFAULT_PAGE_SIZE }),
+    after: stringArg({
+      description:
+        'Cursor of the last event of the previous page'
+    }),
+    userId: idArg({
+      description: 'Only events about the user'
+    }),
+    types: arg({
+      type: AuditEventType,
+      list: true,
+      description: 'Only events of the given kinds'
+    }),
+    ip: stringArg({
+      description: 'Only events from the IP'
+    }),
+    since: arg({
+      type: 'DateTime',
+      description: 'Only events at or after the time'
+    }),
+    until: arg({
+      type: 'DateTime',
+      description: 'Only events before the time'
+    })
+  },
+  async resolve(
+    _,
+    { first, after, userId, types, ip, since, until },
+    { models }
+  ): Promise<NexusGenRootTypes['AuditEventConnection']> {
+    if (userId) assertObjectId(userId, 'userId')
+    if (after) assertObjectId(after, 'after')
+
+    return toAuditEventConnection(
+      await models.securityEvents.findEvents({
+        first: toPageSize(first),
+        after: after || undefined,
+        userId: userId || undefined,
+        types: types
+          ? (types as SecurityEventKind[])
+          : undefined,
+        ip: ip || undefined,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined
+      })
+    )
+  }
+})
+
+/**
+ * Keeps the given user from signing in & signs them out everywhere
+ */
+const disableUserMutation = mutationField('disableUser', {
+  description:
+    'Keeps the given user from signing in & signs them out everywhere',
+  type: 'User',
+  nullable: true,
+  args: {
+    id: idArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { id },
+    { user, models }
+  ): Promise<NexusGenRootTypes['User'] | null> => {
+    if (user && user._id.toHexString() === id)
+      throw new AppError('CANNOT_DISABLE_SELF')
+
+    await findTargetUser(id, 'id', models)
+    await models.users.setDisabled(id, true)
+    await models.sessions.revokeUserSessions(id)
+    const found = await models.users.findUserById(id)
+
+    return found ? toUserRoot(found) : null
+  }
+})
+
+/**
+ * Allows the given disabled user to sign in again
+ */
+const enableUserMutation = mutationField('enableUser', {
+  description:
+    'Allows the given disabled user to sign in again',
+  type: 'User',
+  nullable: true,
+  args: {
+    id: idArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { id },
+    { models }
+  ): Promise<NexusGenRootTypes['User'] | null> => {
+    await findTargetUser(id, 'id', models)
+    await models.users.setDisabled(id, false)
+    const found = await models.users.findUserById(id)
+
+    return found ? toUserRoot(found) : null
+  }
+})
+
+/**
+ * Signs the given user out on every device
+ */
+const forceSignOutMutation = mutationField('forceSignOut', {
+  description: 'Signs the given user out on every device',
+  type: 'Boolean',
+  nullable: false,
+  args: {
+    id: idArg({ required: true })
+  },
+  resolve: async (
+    _,
+    { id },
+    { models, client }
+  ): Promise<boolean> => {
+    await findTargetUser(id, 'id', models)
+    await models.sessions.revokeUserSessions(id)
+    // recorded with the admin's device info
+    await recordAuditEvent(models, client, {
+      type: 'TOKENS_INVALIDATED',
+      userId: id
+    })
+
+    return true
+  }
+})
+
+/**
+ * Sets new password for the given user & signs them out everywhere
+ */
+const setUserPasswordMutation = mutationField(
+  'setUserPassword',
+  {
+    description:
+      'Sets new password for the given user & signs them out everywhere',
+    type: 'Boolean',
+    nullable: false,
+    args: {
+      id: idArg({ required: true }),
+      password: stringArg({ required: true })
+    },
+    resolve: async (
+      _,
+      { id, password },
+      { models, passwordPolicy, client }
+    ): Promise<boolean> => {
+      await findTargetUser(id, 'id', models)
+      passwordPolicy.assertValid(password)
+
+      const updated = await models.users.setPassword(
+        id,
+        password
+      )
+      if (updated) {
+        await recordAuditEvent(models, client, {
+          type: 'PASSWORD_CHANGED',
+          userId: id
+        })
+        await models.sessions.revokeUserSessions(id)
+      }
+
+      return updated
+    }
+  }
+)
+
+/**
+ * Topic sessions of the user are announced on once revoked
+ * @param userId id of the user who owns the sessions
+ * @returns pub/sub topic
+ */
+export const sessionRevokedTopic = (
+  userId: string
+): string => `sessionRevoked:${userId}`
+
+/**
+ * Notifies the current device once its session is revoked
+ */
+const sessionRevokedSubscription = subscriptionField(
+  'sessionRevoked',
+  {
+    description:
+      'Notifies the current device once its session is revoked, e.g. by invalidateTokens',
+    type: 'Boolean',
+    nullable: false,
+    subscribe: (
+      _,
+      __,
+      { user, sessionId, pubSub }
+    ): AsyncIterator<SessionRevokedEvent> => {
+      if (!user || !sessionId)
+        throw new UnauthenticatedError()
+
+      return pubSub.asyncIterator(
+        sessionRevokedTopic(user._id.toHexString()),
+        (event: SessionRevokedEvent): boolean =>
+          isSessionRevoked(event, sessionId)
+      )
+    },
+    resolve: (): boolean => true
+  }
+)
+
+export const AuthTypes = {
   Email,
+  DateTimeScalar,
   User,
+  Session,
+  LoginLockout,
   AuthPayload,
+  SecondFactorChallenge,
+  SignInResult,
+  TotpSetup,
+  SortOrder,
+  PageInfo,
+  UserEdge,
+  UserConnection,
+  AuditEventType,
+  AuditEvent,
+  AuditEventEdge,
+  AuditEventConnection,
   meQuery,
+  mySessionsQuery,
+  myAuditLogQuery,
+  loginLockoutsQuery,
+  loginLockoutQuery,
   signInMutation,
+  verifySecondFactorMutation,
+  enableTotpMutation,
+  confirmTotpMutation,
+  disableTotpMutation,
+  regenerateRecoveryCodesMutation,
   signUpMutation,
+  requestPasswordResetMutation,
+  resetPasswordMutation,
+  changePasswordMutation,
+  sendVerificationEmailMutation,
+  verifyEmailMutation,
   refreshTokensMutation,
-  invalidateTokensMutation
+  invalidateTokensMutation,
+  signOutMutation,
+  revokeSessionMutation,
+  revokeOtherSessionsMutation,
+  clearLoginLockoutMutation,
+  assignRoleMutation,
+  removeRoleMutation,
+  usersQuery,
+  userQuery,
+  auditLogQuery,
+  disableUserMutation,
+  enableUserMutation,
+  forceSignOutMutation,
+  setUserPasswordMutation,
+  sessionRevokedSubscription
 }
 
 export const AuthPermissions = {
   Query: {
-    me: isAuthenticated
+    me: isAuthenticated,
+    mySessions: isAuthenticated,
+    myAuditLog: isAuthenticated,
+    loginLockouts: isAdmin,
+    loginLockout: isAdmin,
+    users: isAdmin,
+    user: isAdmin,
+    auditLog: isAdmin
   },
   Mutation: {
     signIn: notAuthenticated,
+    verifySecondFactor: notAuthenticated,
+    enableTotp: isAuthenticated,
+    confirmTotp: isAuthenticated,
+    disableTotp: isAuthenticated,
+    regenerateRecoveryCodes: isAuthenticated,
     signUp: notAuthenticated,
+    requestPasswordReset: notAuthenticated,
+    resetPassword: notAuthenticated,
+    changePassword: isAuthenticated,
+    sendVerificationEmail: isAuthenticated,
+    verifyEmail: allow,
     refreshTokens: notAuthenticated,
-    invalidateTokens: isAuthenticated
+    invalidateTokens: isAuthenticated,
+    // clears stale cookies even when nobody is signed in
+    signOut: allow,
+    revokeSession: isAuthenticated,
+    revokeOtherSessions: isAuthenticated,
+    clearLoginLockout: isAdmin,
+    assignRole: isAdmin,
+    removeRole: isAdmin,
+    disableUser: isAdmin,
+    enableUser: isAdmin,
+    forceSignOut: isAdmin,
+    setUserPassword: isAdmin
+  },
+  Subscription: {
+    sessionRevoked: isAuthenticated
   }
 }
@@ -0,0 +1,328 @@
+import { IncomingMessage } from 'http'
+import { Socket } from 'net'
+import { ObjectID } from 'mongodb'
+import { hash, getRounds } from 'bcryptjs'
+
+import {
+  generateFakeCollection,
+  asEntity,
+  FakeCollection
+} from '@nextq/testing/fakeCollection'
+
+import {
+  generateSessionModel,
+  generateSecurityEventModel,
+  generateUserModel,
+  getDummyPasswordHash,
+  AuthModels,
+  Session,
+  SecurityEvent,
+  User,
+  UserModel
+} from './models'
+import {
+  rotateSession,
+  getClientInfo,
+  getValidatedUser
+} from './utils'
+
+const client = { userAgent: 'jest', ip: '127.0.0.1' }
+
+const user: User = {
+  _id: new ObjectID(),
+  email: 'user@example.com',
+  passwordHash: '',
+  count: 0,
+  emailVerified: true,
+  emailVerifiedAt: new Date()
+}
+
+/**
+ * Sets up models backed by in-memory collections
+ * @param reuseGrace seconds a rotated token is still accepted
+ * @returns models & the collections behind them
+ */
+const setup = (
+  reuseGrace?: number
+): {
+  models: AuthModels
+  sessions: FakeCollection<Session>
+  events: FakeCollection<SecurityEvent>
+} => {
+  const sessions = generateFakeCollection<Session>(
+    'sessions'
+  )
+  const events = generateFakeCollection<SecurityEvent>(
+    'securityEvents'
+  )
+  const users: Partial<UserModel> = {
+    findUserById: async (id): Promise<User | null> =>
+      user._id.equals(id) ? user : null
+  }
+
+  return {
+    models: {
+      users: users as UserModel,
+      sessions: generateSessionModel(
+        asEntity(sessions),
+        undefined,
+        reuseGrace
+      ),
+      securityEvents: generateSecurityEventModel(
+        asEntity(events)
+      )
+    },
+    sessions,
+    events
+  }
+}
+
+const eventTypes = (
+  events: FakeCollection<SecurityEvent>
+): string[] => events.docs.map(({ type }): string => type)
+
+describe('rotateSession', (): void => {
+  it('exchanges the current refresh token for a new one', async (): Promise<
+    void
+  > => {
+    const { models, events } = setup()
+    const session = await models.sessions.createSession(
+      user._id.toHexString(),
+      client
+    )
+
+    const rotated = await rotateSession(
+      {
+        userId: user._id.toHexString(),
+        sessionId: session._id.toHexString(),
+        tokenId: session.refreshTokenId
+      },
+      models,
+      client
+    )
+
+    expect(rotated).not.toBeNull()
+    expect(rotated && rotated.refreshTokenId).not.toBe(
+      session.refreshTokenId
+    )
+    expect(eventTypes(events)).toEqual(['TOKEN_REFRESH'])
+  })
+
+  it('gives parallel requests within the grace period the same token', async (): Promise<
+    void
+  > => {
+    const { models, events } = setup(30)
+    const session = await models.sessions.createSession(
+      user._id.toHexString(),
+      client
+    )
+    const data = {
+      userId: user._id.toHexString(),
+      sessionId: session._id.toHexString(),
+      tokenId: session.refreshTokenId
+    }
+
+    const [first, second] = await Promise.all([
+      rotateSession(data, models, client),
+      rotateSession(data, models, client)
+    ])
+
+    expect(first).not.toBeNull()
+    expect(second).not.toBeNull()
+    expect(first && first.refreshTokenId).toBe(
+      second && second.refreshTokenId
+    )
+    expect(eventTypes(events)).not.toContain(
+      'REFRESH_TOKEN_REUSE'
+    )
+    expect(
+      await models.sessions.findActiveSession(
+        data.sessionId,
+        data.userId
+      )
+    ).not.toBeNull()
+  })
+
+  it('revokes the session when a rotated token is reused after the grace period', async (): Promise<
+    void
+  > => {
+    const { models, sessions, events } = setup(30)
+    const session = await models.sessions.createSession(
+      user._id.toHexString(),
+      client
+    )
+    const data = {
+      userId: user._id.toHexString(),
+      sessionId: session._id.toHexString(),
+      tokenId: session.refreshTokenId
+    }
+
+    await rotateSession(data, models, client)
+    await sessions.updateOne(
+      { _id: session._id },
+      { $set: { rotatedAt: new Date(Date.now() - 31000) } }
+    )
+
+    expect(
+      await rotateSession(data, models, client)
+    ).toBeNull()
+    expect(
+      await models.sessions.findActiveSession(
+        data.sessionId,
+        data.userId
+      )
+    ).toBeNull()
+    expect(eventTypes(events)).toContain(
+      'REFRESH_TOKEN_REUSE'
+    )
+  })
+
+  it('revokes the session when a token older than the previous one is reused', async (): Promise<
+    void
+  > => {
+    const { models } = setup(30)
+    const session = await models.sessions.createSession(
+      user._id.toHexString(),
+      client
+    )
+    const data = {
+      userId: user._id.toHexString(),
+      sessionId: session._id.toHexString(),
+      tokenId: session.refreshTokenId
+    }
+
+    const second = await rotateSession(data, models, client)
+    await rotateSession(
+      {
+        ...data,
+        tokenId: second ? second.refreshTokenId : ''
+      },
+      models,
+      client
+    )
+
+    expect(
+      await rotateSession(data, models, client)
+    ).toBeNull()
+    expect(
+      await models.sessions.findActiveSession(
+        data.sessionId,
+        data.userId
+      )
+    ).toBeNull()
+  })
+})
+
+describe('getClientInfo', (): void => {
+  const request = (
+    remoteAddress: string,
+    forwardedFor?: string
+  ): IncomingMessage => {
+    const req = new IncomingMessage(new Socket())
+    Object.defineProperty(req.socket, 'remoteAddress', {
+      value: remoteAddress
+    })
+    req.headers = forwardedFor
+      ? {
+          'x-forwarded-for': forwardedFor,
+          'user-agent': 'jest'
+        }
+      : { 'user-agent': 'jest' }
+
+    return req
+  }
+
+  it('ignores X-Forwarded-For without trusted proxies', (): void => {
+    expect(
+      getClientInfo(request('203.0.113.7', '198.51.100.1'))
+    ).toEqual({ userAgent: 'jest', ip: '203.0.113.7' })
+  })
+
+  it('takes the right-most hop which is not a trusted proxy', (): void => {
+    expect(
+      getClientInfo(
+        request(
+          '::ffff:10.0.0.2',
+          '198.51.100.1, 203.0.113.9, 10.0.0.1'
+        ),
+        ['10.0.0.1', '10.0.0.2']
+      ).ip
+    ).toBe('203.0.113.9')
+  })
+
+  it('ignores X-Forwarded-For sent straight to the app', (): void => {
+    expect(
+      getClientInfo(
+        request('203.0.113.7', '198.51.100.1'),
+        ['10.0.0.1']
+      ).ip
+    ).toBe('203.0.113.7')
+  })
+
+  it('takes the first hop when every hop is trusted', (): void => {
+    expect(
+      getClientInfo(request('10.0.0.2', '10.0.0.1'), [
+        '10.0.0.1',
+        '10.0.0.2'
+      ]).ip
+    ).toBe('10.0.0.1')
+  })
+})
+
+describe('getValidatedUser', (): void => {
+  const setupUsers = async (): Promise<UserModel> =>
+    generateUserModel(
+      asEntity(
+        generateFakeCollection<User>('users', [
+          {
+            ...user,
+            passwordHash: await hash('correct horse', 4)
+          }
+        ])
+      ),
+      4
+    )
+
+  it('returns the user for the right password', async (): Promise<
+    void
+  > => {
+    const users = await setupUsers()
+
+    expect(
+      (await getValidatedUser(
+        user.email,
+        'correct horse',
+        users
+      ))._id.equals(user._id)
+    ).toBe(true)
+  })
+
+  it('rejects wrong passwords & unknown emails alike', async (): Promise<
+    void
+  > => {
+    const users = await setupUsers()
+    const failure = (
+      email: string
+    ): Promise<string | null> =>
+      getValidatedUser(email, 'battery staple', users).then(
+        (): null => null,
+        (e): string => e.extensions.code
+      )
+
+    expect(await failure(user.email)).toBe(
+      'INVALID_CREDENTIALS'
+    )
+    expect(await failure('unknown@example.com')).toBe(
+      'INVALID_CREDENTIALS'
+    )
+  })
+
+  it('hashes the dummy password with the configured cost', async (): Promise<
+    void
+  > => {
+    expect(getRounds(await getDummyPasswordHash(5))).toBe(5)
+    expect(getDummyPasswordHash(5)).toBe(
+      getDummyPasswordHash(5)
+    )
+  })
+})
@@ -1,96 +1,218 @@
-import { sign, verify } from 'jsonwebtoken'
 import { ServerResponse, IncomingMessage } from 'http'
-import { serialize, parse } from 'cookie'
-import { User, UserModel } from './models'
+import {
+  User,
+  UserModel,
+  AuthModels,
+  SecurityEventInput
+} from './models'
+import { AuthCookies } from './cookies'
+import {
+  InvalidCredentialsError,
+  AccountDisabledError
+} from './errors'
+import {
+  TokenSigner,
+  generateSecretSigner
+} from './signingKeys'
 import { ObjectID } from 'mongodb'
-import { compare } from 'bcryptjs'
+import { randomBytes, createHash } from 'crypto'
 
 /**
  * Generates JWT token based on provided params
  * @param data Data encoded in the token
- * @param secret Secret used to generate token
- * @param expiresIn Time for which the token is valid for
+ * @param signer Signer used to generate token
+ * @param expiresIn Time in seconds for which the token is valid for
  * @returns JWT token
  */
 const tokenGenerator = (
-  data: Record<string, string | number>,
-  secret: string,
-  expiresIn: string
-): string => sign(data, secret, { expiresIn })
+  data: Record<string, string | number | string[]>,
+  signer: TokenSigner,
+  expiresIn: number
+): string => signer.sign(data, expiresIn)
+
+/**
+ * Time in seconds for which tokens are valid
+ * @typedef TokenLifetimes
+ */
+export interface TokenLifetimes {
+  accessToken: number
+  refreshToken: number
+}
+
+export const defaultTokenLifetimes: TokenLifetimes = {
+  accessToken: 60 * 15,
+  refreshToken: 60 * 60 * 24 * 7
+}
 
 /**
  * Wraps tokenGenerator fn to create access tokens
  * @param userId User's id from DB
- * @param secret Secret to generate token
- * @returns  JWT access token which expires after 15min
+ * @param sessionId Id of the session the token belongs to
+ * @param roles Roles granted to the user, embedded as claims
+ * @param signer Signer to generate token
+ * @param expiresIn Time in seconds for which the token is valid
+ * @returns  JWT access token which expires after 15min by default
  */
 export const accessTokenGenerator = (
   userId: string,
-  secret: string
-): string => tokenGenerator({ userId }, secret, '15min')
+  sessionId: string,
+  roles: string[],
+  signer: TokenSigner,
+  expiresIn: number = defaultTokenLifetimes.accessToken
+): string =>
+  tokenGenerator(
+    { userId, sessionId, roles },
+    signer,
+    expiresIn
+  )
 
 /**
  * Wraps tokenGenerator fn to create access tokens
  * @param userId User's id from DB
- * @param count Number of provisioned refresh tokens
- * @param secret Secret to generate token
- * @returns  JWT refresh token which expires after 7 days
+ * @param sessionId Id of the session the token belongs to
+ * @param tokenId Id of the refresh token within the session
+ * @param signer Signer to generate token
+ * @param expiresIn Time in seconds for which the token is valid
+ * @returns  JWT refresh token which expires after 7 days by default
  */
 export const refreshTokenGenerator = (
   userId: string,
-  count: number,
-  secret: string
-): string => tokenGenerator({ userId, count }, secret, '7d')
+  sessionId: string,
+  tokenId: string,
+  signer: TokenSigner,
+  expiresIn: number = defaultTokenLifetimes.refreshToken
+): string =>
+  tokenGenerator(
+    { userId, sessionId, tokenId },
+    signer,
+    expiresIn
+  )
 
-type VerifiedAccessToken = string | null
+/**
+ * Wraps tokenGenerator fn to create second factor challenge tokens
+ * @param userId User's id from DB
+ * @param signer Signer to generate token
+ * @returns  JWT challenge token which expires after 5min
+ */
+export const challengeTokenGenerator = (
+  userId: string,
+  signer: TokenSigner
+): string =>
+  tokenGenerator(
+    { userId, purpose: 'second-factor' },
+    signer,
+    60 * 5
+  )
+
+/**
+ * Verifies second factor challenge token
+ * @param token challenge token to verify
+ * @param signer signer to verify token with
+ * @returns if valid, returns `userId` otherwise `null`
+ */
+const verifyChallengeToken = (
+  token: string,
+  signer: TokenSigner
+): string | null => {
+  try {
+    const { userId, purpose } = signer.verify(token) as {
+      userId: string
+      purpose?: string
+    }
+
+    return purpose === 'second-factor' ? userId : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Info encoded in both access and refresh tokens
+ * @typedef TokenData
+ */
+export interface TokenData {
+  userId: string
+  sessionId: string
+}
+
+/**
+ * Info encoded in access tokens
+ * @typedef AccessTokenData
+ */
+export interface AccessTokenData extends TokenData {
+  roles: string[]
+}
+
+type VerifiedAccessToken = AccessTokenData | null
+
+/**
+ * Info encoded in refresh tokens
+ * @typedef RefreshTokenData
+ */
+export interface RefreshTokenData extends TokenData {
+  tokenId: string
+}
+
+type VerifiedRefreshToken = RefreshTokenData | null
 
 /**
  * Verifies access token
  * @param token access token to verify
- * @param accessSecret secret to verify token with
- * @returns if valid, returns `userId` otherwise `null`
+ * @param signer signer to verify token with
+ * @returns if valid, returns `userId`, `sessionId` and `roles` otherwise `null`
  */
 const verifyAccessToken = (
   token: string,
-  accessSecret: string
+  signer: TokenSigner
 ): VerifiedAccessToken => {
   try {
-    const { userId } = verify(token, accessSecret) as {
+    const { userId, sessionId, roles } = signer.verify(
+      token
+    ) as {
       userId: string
+      sessionId?: string
+      roles?: string[]
+    }
+
+    // tokens issued before sessions existed aren't accepted
+    if (!sessionId) return null
+
+    return {
+      userId,
+      sessionId,
+      roles: Array.isArray(roles) ? roles : []
     }
-    return userId
   } catch {
     return null
   }
 }
 
-type VerifiedRefreshToken = {
-  userId: string
-  count: number
-} | null
-
 /**
  * Verifies refresh token
  * @param token refresh token to verify
- * @param refreshSecret secret to verify token with
- * @returns if valid, returns `userId` and `count` otherwise `null`
+ * @param signer signer to verify token with
+ * @returns if valid, returns `userId`, `sessionId` and `tokenId` otherwise `null`
  */
 const verifyRefreshToken = (
   token: string,
-  refreshSecret: string
+  signer: TokenSigner
 ): VerifiedRefreshToken => {
   try {
-    const { userId, count } = verify(
-      token,
-      refreshSecret
+    const { userId, sessionId, tokenId } = signer.verify(
+      token
     ) as {
       userId: string
-      count: number
+      sessionId?: string
+      tokenId?: string
     }
 
+    // tokens issued before rotation existed aren't accepted
+    if (!sessionId || !tokenId) return null
+
     return {
       userId,
-      count
+      sessionId,
+      tokenId
     }
   } catch {
     return null
@@ -102,198 +224,575 @@ const verifyRefreshToken = (
  * @typedef TokenGenerator
  */
 export interface TokenGenerator {
-  accessToken: (userId: string) => string
-  refreshToken: (userId: string, count: number) => string
+  accessToken: (
+    userId: string,
+    sessionId: string,
+    roles: string[]
+  ) => string
+  refreshToken: (
+    userId: string,
+    sessionId: string,
+    tokenId: string
+  ) => string
   verifyRefreshToken: (
     token: string
   ) => VerifiedRefreshToken
   verifyAccessToken: (token: string) => VerifiedAccessToken
+  challengeToken: (userId: string) => string
+  verifyChallengeToken: (token: string) => string | null
 }
 
 /**
- * Higher order function which wraps other token generator fns and injects secrets & expiration
- * @param accessSecret Secret used to generate access token
- * @param refreshSecret Secret used to generate refresh token
+ * Signers used for each kind of token
+ * @typedef TokenSigners
+ */
+export interface TokenSigners {
+  access: TokenSigner
+  refresh: TokenSigner
+  /** second factor challenges are only read by this server */
+  challenge: TokenSigner
+}
+
+/**
+ * Higher order function which wraps other token generator fns and injects signers & expiration
+ * @param param0 Signers used to generate & verify each kind of token
+ * @param lifetimes Time in seconds for which the tokens are valid
  * @returns Generators fns to generate access & refresh tokens as well as verify them
  */
-export const tokenGeneratorWithSecrets = (
-  accessSecret: string,
-  refreshSecret: string
+export const tokenGeneratorWithSigners = (
+  { access, refresh, challenge }: TokenSigners,
+  lifetimes: TokenLifetimes = defaultTokenLifetimes
 ): TokenGenerator =>
   Object.freeze({
-    accessToken: (userId: string): string =>
-      accessTokenGenerator(userId, accessSecret),
-    refreshToken: (userId: string, count: number): string =>
-      refreshTokenGenerator(userId, count, refreshSecret),
+    accessToken: (
+      userId: string,
+      sessionId: string,
+      roles: string[]
+    ): string =>
+      accessTokenGenerator(
+        userId,
+        sessionId,
+        roles,
+        access,
+        lifetimes.accessToken
+      ),
+    refreshToken: (
+      userId: string,
+      sessionId: string,
+      tokenId: string
+    ): string =>
+      refreshTokenGenerator(
+        userId,
+        sessionId,
+        tokenId,
+        refresh,
+        lifetimes.refreshToken
+      ),
     verifyRefreshToken: (
       token: string
     ): VerifiedRefreshToken =>
-      verifyRefreshToken(token, refreshSecret),
+      verifyRefreshToken(token, refresh),
     verifyAccessToken: (
       token: string
     ): VerifiedAccessToken =>
-      verifyAccessToken(token, accessSecret)
+      verifyAccessToken(token, access),
+    challengeToken: (userId: string): string =>
+      challengeTokenGenerator(userId, challenge),
+    verifyChallengeToken: (token: string): string | null =>
+      verifyChallengeToken(token, challenge)
   })
 
+/**
+ * Higher order function which wraps other token generator fns and injects secrets & expiration
+ * @param accessSecret Secret used to generate access token
+ * @param refreshSecret Secret used to generate refresh token
+ * @param lifetimes Time in seconds for which the tokens are valid
+ * @returns Generators fns to generate access & refresh tokens as well as verify them
+ */
+export const tokenGeneratorWithSecrets = (
+  accessSecret: string,
+  refreshSecret: string,
+  lifetimes: TokenLifetimes = defaultTokenLifetimes
+): TokenGenerator => {
+  const accessSigner = generateSecretSigner(accessSecret)
+
+  return tokenGeneratorWithSigners(
+    {
+      access: accessSigner,
+      refresh: generateSecretSigner(refreshSecret),
+      challenge: accessSigner
+    },
+    lifetimes
+  )
+}
+
 /**
  * Object with access and refresh tokens
  * @typedef AuthTokens
  */
-interface AuthTokens {
+export interface AuthTokens {
   accessToken: string
   refreshToken: string
 }
 
 /**
  * Take's verified used info to generate JWT tokens for them
- * @param userId User's Id from DB
- * @param count Number of provisioned refresh tokens
+ * @param user verified user info from DB
+ * @param sessionId Id of the session the tokens belong to
+ * @param refreshTokenId Id of the session's current refresh token
  * @param tokenGenerator Generator used to generate access and refresh tokens
  * @returns JWT tokens
  */
 export const signInVerifiedUser = (
-  userId: string,
-  count: number,
+  { _id, roles = [] }: User,
+  sessionId: string,
+  refreshTokenId: string,
   tokenGenerator: TokenGenerator
 ): AuthTokens => ({
-  accessToken: tokenGenerator.accessToken(userId),
-  refreshToken: tokenGenerator.refreshToken(userId, count)
+  accessToken: tokenGenerator.accessToken(
+    _id.toHexString(),
+    sessionId,
+    roles
+  ),
+  refreshToken: tokenGenerator.refreshToken(
+    _id.toHexString(),
+    sessionId,
+    refreshTokenId
+  )
 })
 
 /**
- * Adds the provided tokens to the response being sent out to the client
- * @param param0 JWT tokens
+ * Adds cookies to the response while keeping the ones already set on it
  * @param res Response sent out to client
+ * @param cookies Serialized cookies to add
  */
-export const addTokensToCookies = (
-  { accessToken, refreshToken }: AuthTokens,
-  res: ServerResponse
+export const appendCookies = (
+  res: ServerResponse,
+  cookies: string[]
 ): void => {
-  res.setHeader('Set-Cookie', [
-    serialize('refresh-token', refreshToken, {
-      maxAge: 60 * 60 * 24 * 7
-    }),
-    serialize('access-token', accessToken, {
-      maxAge: 60 * 60 * 15
+  const existing = res.getHeader('Set-Cookie')
+  const previous = !existing
+    ? []
+    : Array.isArray(existing)
+    ? existing
+    : [String(existing)]
+
+  res.setHeader('Set-Cookie', [...previous, ...cookies])
+}
+
+/**
+ * Device info of the client making the request
+ * @typedef ClientInfo
+ */
+export interface ClientInfo {
+  userAgent: string
+  ip: string
+}
+
+/**
+ * Strips whitespace & the prefix IPv4 addresses get on dual stack sockets
+ * @param ip ip of a hop
+ * @returns comparable ip
+ */
+const normalizeIp = (ip: string): string =>
+  ip.trim().replace(/^::ffff:/, '')
+
+/**
+ * Extracts device info of the client from the request.
+ * Every proxy appends the address it got the request from to `X-Forwarded-For`,
+ * so the client is the right-most hop which isn't a trusted proxy.
+ * Hops left of it may be forged by the client
+ * @param req Request coming from client
+ * @param trustedProxies ips of the proxies in front of the app, `X-Forwarded-For` is ignored without any
+ * @returns user agent & ip of the client
+ */
+export const getClientInfo = (
+  req: IncomingMessage,
+  trustedProxies: string[] = []
+): ClientInfo => {
+  const forwardedFor = req.headers['x-forwarded-for']
+  const trusted = trustedProxies.map(normalizeIp)
+  const hops = [
+    ...(Array.isArray(forwardedFor)
+      ? forwardedFor.join(',')
+      : forwardedFor || ''
+    ).split(','),
+    req.socket.remoteAddress || ''
+  ]
+    .map(normalizeIp)
+    .filter((ip): boolean => !!ip)
+  const untrusted = hops.filter(
+    (ip): boolean => !trusted.includes(ip)
+  )
+
+  return {
+    userAgent: req.headers['user-agent'] || '',
+    // requests passing only through trusted proxies came from the first of them
+    ip: untrusted.length
+      ? untrusted[untrusted.length - 1]
+      : hops[0] || ''
+  }
+}
+
+/**
+ * Records the event in the audit log along with the client's device info.
+ * Failing to record it is logged rather than failing the request
+ * @param models Data model
+ * @param client Device info of the client
+ * @param event info about the event
+ */
+export const recordAuditEvent = async (
+  models: AuthModels,
+  client: ClientInfo,
+  event: Omit<SecurityEventInput, 'userAgent' | 'ip'>
+): Promise<void> => {
+  try {
+    await models.securityEvents.recordEvent({
+      ...event,
+      ...client
     })
-  ])
+  } catch (e) {
+    console.error(`Failed to record ${event.type} event`, e)
+  }
+}
+
+/**
+ * Whether an admin disabled the user's account
+ * @param user user info from DB
+ * @returns whether the user is kept from signing in
+ */
+export const isDisabled = (user: User): boolean =>
+  !!user.disabledAt
+
+/**
+ * User making the request along with the session used
+ * @typedef ActiveUser
+ */
+export interface ActiveUser {
+  user: User
+  sessionId: string
+  /** role claims the request was authorized with */
+  roles: string[]
+  /** whether the request was authenticated by bearer token or passed the csrf check */
+  csrfVerified: boolean
+}
+
+/**
+ * Looks up the user for the token data if its session is still active
+ * @param param0 Data extracted from access token
+ * @param models Data model
+ * @param csrfVerified Whether the request passed the csrf check
+ * @returns User from DB along with the session id & role claims, if session is active
+ */
+const findSessionUser = async (
+  { userId, sessionId, roles }: AccessTokenData,
+  models: AuthModels,
+  csrfVerified: boolean
+): Promise<ActiveUser | null> => {
+  const session = await models.sessions.findActiveSession(
+    sessionId,
+    userId
+  )
+  if (!session) return null
+
+  const user = await models.users.findUserById(userId)
+
+  return user && !isDisabled(user)
+    ? { user, sessionId, roles, csrfVerified }
+    : null
+}
+
+/**
+ * Looks up the user of a bearer token, which browsers never attach by themselves
+ * @param authorization value of the authorization header
+ * @param tokenGenerator Generator used to verify tokens
+ * @param models Data model
+ * @returns User from DB along with the session id & role claims, if session is active
+ */
+const findBearerUser = async (
+  authorization: string,
+  tokenGenerator: TokenGenerator,
+  models: AuthModels
+): Promise<ActiveUser | null> => {
+  const data = tokenGenerator.verifyAccessToken(
+    authorization.replace('Bearer ', '')
+  )
+
+  return data ? findSessionUser(data, models, true) : null
+}
+
+/**
+ * Session after its refresh token has been rotated
+ * @typedef RotatedSession
+ */
+export interface RotatedSession {
+  user: User
+  sessionId: ObjectID
+  refreshTokenId: string
+}
+
+/**
+ * Exchanges refresh token for the next one of its session.
+ * Presenting a token rotated before the grace period revokes the whole session, both are recorded in the audit log
+ * @param param0 Data extracted from refresh token
+ * @param models Data model
+ * @param client Device info of the client presenting the token
+ * @returns User & the session's new refresh token id, if the token was current
+ */
+export const rotateSession = async (
+  { userId, sessionId, tokenId }: RefreshTokenData,
+  models: AuthModels,
+  client: ClientInfo
+): Promise<RotatedSession | null> => {
+  const refreshTokenId = await models.sessions.rotateRefreshToken(
+    sessionId,
+    userId,
+    tokenId
+  )
+
+  if (!refreshTokenId) {
+    // session is still active so the token must have been rotated already
+    const reused = await models.sessions.revokeSession(
+      sessionId,
+      userId
+    )
+
+    if (reused)
+      await recordAuditEvent(models, client, {
+        type: 'REFRESH_TOKEN_REUSE',
+        userId,
+        sessionId
+      })
+
+    return null
+  }
+
+  const user = await models.users.findUserById(userId)
+  if (!user || isDisabled(user)) return null
+
+  await recordAuditEvent(models, client, {
+    type: 'TOKEN_REFRESH',
+    userId,
+    sessionId
+  })
+
+  return {
+    user,
+    sessionId: new ObjectID(sessionId),
+    refreshTokenId
+  }
 }
 
 /**
  * Extracts user info from req and returns user from DB
  * @param req Request coming from client
- * @param accessTokenSecret Secret used to encode and decode access token
- * @param refreshTokenSecret Secret used to encode & decode refresh token
+ * @param res Response sent out to client
+ * @param tokenGenerator Generator used to verify & reissue tokens
  * @param models Data model
- * @returns User from DB based on request tokens, if one exists
+ * @param authCookies Helpers to read & write auth cookies
+ * @param client Device info of the client making the request
+ * @returns User from DB & active session based on request tokens, if one exists
  */
 export const getActiveUser = async (
   req: IncomingMessage,
   res: ServerResponse,
-  accessTokenSecret: string,
-  refreshTokenSecret: string,
-  models: { users: UserModel }
-): Promise<User | null> => {
+  tokenGenerator: TokenGenerator,
+  models: AuthModels,
+  authCookies: AuthCookies,
+  client: ClientInfo
+): Promise<ActiveUser | null> => {
   // 1. extract tokens
-  const cookies = parse(req.headers.cookie || ''),
-    oldAccessToken = cookies['access-token'],
-    oldRefreshToken = cookies['refresh-token'],
+  const {
+      accessToken: oldAccessToken,
+      refreshToken: oldRefreshToken,
+      csrfToken
+    } = authCookies.read(req),
     bearerToken = req.headers.authorization
 
-  if (bearerToken) {
-    const token = bearerToken.replace('Bearer ', '')
-    try {
-      const { userId } = verify(
-        token,
-        accessTokenSecret
-      ) as { userId: string }
-      return models.users.findUserById(userId)
-    } catch {
-      return null
-    }
-  }
+  // browsers don't attach bearer tokens by themselves so csrf checks aren't needed
+  if (bearerToken)
+    return findBearerUser(
+      bearerToken,
+      tokenGenerator,
+      models
+    )
 
   if (!oldAccessToken && !oldRefreshToken) return null
 
-  // 2. extract userId from accessToken
-  // 3. get user info & return
-  try {
-    const { userId } = verify(
-      oldAccessToken,
-      accessTokenSecret
-    ) as { userId: string }
-    return models.users.findUserById(userId)
-  } catch {}
-
-  // 4. If accessToken not valid, extract userId from refreshToken
-  try {
-    const { userId, count } = verify(
-      oldRefreshToken,
-      refreshTokenSecret
-    ) as { userId: string; count: number }
-    const user = await models.users.findUserById(userId)
-
-    if (user && count === user.count) {
-      const tokenGenerator = tokenGeneratorWithSecrets(
-        accessTokenSecret,
-        refreshTokenSecret
-      )
-      const accessToken = tokenGenerator.accessToken(
-        user._id.toHexString()
-      )
-
-      const refreshToken = tokenGenerator.refreshToken(
-        user._id.toHexString(),
-        user.count
-      )
-
-      addTokensToCookies({ accessToken, refreshToken }, res)
-
-      return user
-    }
-  } catch {}
+  // clients signed in before csrf tokens existed get one for their next request
+  if (!csrfToken) authCookies.setCsrfToken(res)
+  const csrfVerified = authCookies.isCsrfValid(req)
+
+  // 2. extract userId & sessionId from accessToken
+  // 3. get user info if session is active & return
+  const accessData = oldAccessToken
+    ? tokenGenerator.verifyAccessToken(oldAccessToken)
+    : null
+  if (accessData)
+    return findSessionUser(accessData, models, csrfVerified)
+
+  // 4. If accessToken not valid, extract userId & sessionId from refreshToken
+  const refreshData = oldRefreshToken
+    ? tokenGenerator.verifyRefreshToken(oldRefreshToken)
+    : null
+  if (!refreshData) return null
+
+  const rotated = await rotateSession(
+    refreshData,
+    models,
+    client
+  )
+  if (!rotated) return null
+
+  authCookies.setTokens(
+    signInVerifiedUser(
+      rotated.user,
+      refreshData.sessionId,
+      rotated.refreshTokenId,
+      tokenGenerator
+    ),
+    res
+  )
+
+  return {
+    user: rotated.user,
+    sessionId: refreshData.sessionId,
+    roles: rotated.user.roles || [],
+    csrfVerified
+  }
+}
+
+/**
+ * Extracts user info from the params a WebSocket connection was opened with, which
+ * mirror the auth headers of http requests. Browsers send cookies along with cross-site
+ * WebSocket requests, so the access token cookie is only accepted with the csrf token.
+ * Expired tokens can't be rotated without a response, clients refresh them over http first
+ * @param req Upgrade request of the connection
+ * @param params Params sent by the client when connecting
+ * @param tokenGenerator Generator used to verify tokens
+ * @param models Data model
+ * @param authCookies Helpers to read auth cookies
+ * @returns User from DB & active session based on the connection's tokens, if one exists
+ */
+export const getConnectionUser = async (
+  req: IncomingMessage,
+  params: Record<string, unknown>,
+  tokenGenerator: TokenGenerator,
+  models: AuthModels,
+  authCookies: AuthCookies
+): Promise<ActiveUser | null> => {
+  const { authorization } = params
+  if (typeof authorization === 'string' && authorization)
+    return findBearerUser(
+      authorization,
+      tokenGenerator,
+      models
+    )
+
+  const { accessToken } = authCookies.read(req)
+  if (
+    !accessToken ||
+    !authCookies.isConnectionCsrfValid(req, params)
+  )
+    return null
+
+  const data = tokenGenerator.verifyAccessToken(accessToken)
 
-  return null
+  return data ? findSessionUser(data, models, true) : null
 }
 
 /**
  * Helper function for signIn process
- * @param userId User's Id from DB
- * @param count Number of provisioned refresh tokens
+ * @param user verified user info from DB
+ * @param sessionId Id of the session the tokens belong to
+ * @param refreshTokenId Id of the session's current refresh token
  * @param tokenGenerator Generator used to generate access and refresh tokens
  * @param res Response sent out to client
- * @param useCookies Whether to include JWT tokens with response in cookies sent out to client
+ * @param authCookies Helpers to include JWT tokens with response in cookies, if given
  * @returns JWT tokens
  */
 export const signInHelper = (
-  userId: ObjectID,
-  count: number,
+  user: User,
+  sessionId: ObjectID,
+  refreshTokenId: string,
   tokenGenerator: TokenGenerator,
   res?: ServerResponse,
-  useCookies?: boolean
+  authCookies?: AuthCookies
 ): {
   refreshToken: string
   accessToken: string
   count: number
 } => {
   const { refreshToken, accessToken } = signInVerifiedUser(
-    userId.toString(),
-    count,
+    user,
+    sessionId.toString(),
+    refreshTokenId,
     tokenGenerator
   )
 
-  if (useCookies && res)
-    addTokensToCookies({ accessToken, refreshToken }, res)
+  if (authCookies && res) {
+    authCookies.setTokens(
+      { accessToken, refreshToken },
+      res
+    )
+    authCookies.setCsrfToken(res)
+  }
 
   return {
     refreshToken,
     accessToken,
-    count
+    count: user.count
   }
 }
 
 /**
- * Validates user info for login
+ * Starts a new session for the user's device & signs them in, recorded in the audit log
+ * @param user validated user info from DB
+ * @param param1 models, response, client's device info, token generator & cookie helpers for the sign in
+ * @param useCookies Whether to include JWT tokens with response in cookies
+ * @returns JWT tokens
+ */
+export const signInWithNewSession = async (
+  user: User,
+  {
+    models,
+    res,
+    client,
+    tokenGenerator,
+    authCookies
+  }: {
+    models: AuthModels
+    res: ServerResponse
+    client: ClientInfo
+    tokenGenerator: TokenGenerator
+    authCookies: AuthCookies
+  },
+  useCookies: boolean
+): Promise<ReturnType<typeof signInHelper>> => {
+  if (isDisabled(user)) throw new AccountDisabledError()
+
+  const session = await models.sessions.createSession(
+    user._id.toHexString(),
+    client
+  )
+  await recordAuditEvent(models, client, {
+    type: 'SIGN_IN',
+    userId: user._id.toHexString(),
+    sessionId: session._id.toHexString()
+  })
+
+  return signInHelper(
+    user,
+    session._id,
+    session.refreshTokenId,
+    tokenGenerator,
+    res,
+    useCookies ? authCookies : undefined
+  )
+}
+
+/**
+ * Validates user info for login, unknown emails & wrong passwords fail alike
  * @param {string} email User's email
  * @param {string} password User's password
  * @param {UserModel} users Users Collection model
@@ -305,14 +804,45 @@ export const getValidatedUser = async (
   users: UserModel
 ): Promise<User> => {
   const user = await users.findUserByEmail(email)
-  if (!user) throw new Error('Invalid email provided')
 
-  const validPassword = await compare(
-    password,
-    user.passwordHash
+  const validPassword = await users.verifyPassword(
+    user,
+    password
   )
-  if (!validPassword)
-    throw new Error('Invalid credential combination')
+  if (!user || !validPassword)
+    throw new InvalidCredentialsError()
+  if (isDisabled(user)) throw new AccountDisabledError()
+
+  await users.rehashPasswordIfNeeded(user, password)
 
   return user
 }
+
+/**
+ * Hashes single-use tokens before they are stored in the DB
+ * @param token token sent out to the user
+ * @returns SHA-256 hash of the token
+ */
+export const hashToken = (token: string): string =>
+  createHash('sha256')
+    .update(token)
+    .digest('hex')
+
+/**
+ * Single-use token along with the hash stored in the DB
+ * @typedef SingleUseToken
+ */
+interface SingleUseToken {
+  token: string
+  tokenHash: string
+}
+
+/**
+ * Generates a random single-use token
+ * @returns token to send to the user & its hash to store
+ */
+export const generateSingleUseToken = (): SingleUseToken => {
+  const token = randomBytes(32).toString('hex')
+
+  return { token, tokenHash: hashToken(token) }
+}
@@ -0,0 +1,270 @@
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  useMemo,
+  ReactElement,
+  ReactNode
+} from 'react'
+import {
+  useQuery,
+  useSubscription,
+  useApolloClient
+} from 'react-apollo'
+
+import {
+  TokenStore,
+  AuthTokens,
+  authTokens
+} from './tokens'
+import {
+  meQuery,
+  signInMutation,
+  verifySecondFactorMutation,
+  signUpMutation,
+  signOutMutation,
+  invalidateTokensMutation,
+  sessionRevokedSubscription
+} from './documents'
+
+/**
+ * Signed in user as returned by the `me` query
+ * @typedef AuthUser
+ */
+export interface AuthUser {
+  id: string
+  email: string
+  emailVerified: boolean
+  totpEnabled: boolean
+  roles: string[]
+}
+
+/**
+ * Outcome of signing in, users with 2FA get a challenge to pass to verifySecondFactor
+ * @typedef SignInOutcome
+ */
+export interface SignInOutcome {
+  challenge: string | null
+}
+
+/**
+ * Current user & actions changing it
+ * @typedef AuthState
+ */
+export interface AuthState {
+  /** signed in user, `null` when signed out */
+  user: AuthUser | null
+  /** whether the current user is still being loaded */
+  loading: boolean
+  /** `remember` keeps the user signed in across reloads with cookies */
+  signIn: (
+    email: string,
+    password: string,
+    remember?: boolean
+  ) => Promise<SignInOutcome>
+  verifySecondFactor: (
+    challenge: string,
+    code: string,
+    remember?: boolean
+  ) => Promise<void>
+  signUp: (
+    email: string,
+    password: string,
+    remember?: boolean
+  ) => Promise<void>
+  signOut: () => Promise<void>
+  /** signs out every device of the user, including this one */
+  signOutEverywhere: () => Promise<void>
+}
+
+interface Props {
+  children: ReactNode
+  /** store the auth link reads tokens from, defaults to the browser's store */
+  tokens?: TokenStore
+}
+
+const AuthContext = createContext<AuthState | null>(null)
+
+interface SessionRevokedListenerProps {
+  onRevoked: () => Promise<void>
+}
+
+/**
+ * Signs this device out as soon as its session is revoked elsewhere,
+ * only rendered in browsers while a user is signed in
+ * @param props handler signing out
+ * @returns nothing to render
+ */
+const SessionRevokedListener = ({
+  onRevoked
+}: SessionRevokedListenerProps): null => {
+  useSubscription(sessionRevokedSubscription, {
+    onSubscriptionData: (): void => {
+      onRevoked().catch((): void => undefined)
+    }
+  })
+
+  return null
+}
+
+/**
+ * Provides the current user & auth actions to its children
+ * @param props children & token store
+ * @returns provider element
+ */
+export const AuthProvider = ({
+  children,
+  tokens = authTokens
+}: Props): ReactElement => {
+  const client = useApolloClient()
+  const { data, loading } = useQuery<{
+    me: AuthUser | null
+  }>(meQuery)
+
+  /**
+   * Keeps the new tokens & refetches everything as the new user
+   * @param newTokens tokens returned by the api
+   * @param remember whether the api also set the tokens as cookies
+   */
+  const startSession = useCallback(
+    async (
+      newTokens: AuthTokens,
+      remember: boolean
+    ): Promise<void> => {
+      tokens.set(
+        {
+          accessToken: newTokens.accessToken,
+          refreshToken: newTokens.refreshToken
+        },
+        remember
+      )
+      await client.resetStore()
+    },
+    [client, tokens]
+  )
+
+  const signIn = useCallback(
+    async (
+      email: string,
+      password: string,
+      remember = true
+    ): Promise<SignInOutcome> => {
+      const result = await client.mutate({
+        mutation: signInMutation,
+        variables: { email, password, cookies: remember }
+      })
+      const payload = result.data && result.data.signIn
+      if (!payload) throw new Error('Sign in failed')
+
+      if (payload.challenge)
+        return { challenge: payload.challenge }
+
+      await startSession(payload, remember)
+      return { challenge: null }
+    },
+    [client, startSession]
+  )
+
+  const verifySecondFactor = useCallback(
+    async (
+      challenge: string,
+      code: string,
+      remember = true
+    ): Promise<void> => {
+      const result = await client.mutate({
+        mutation: verifySecondFactorMutation,
+        variables: { challenge, code, cookies: remember }
+      })
+      const payload =
+        result.data && result.data.verifySecondFactor
+      if (!payload) throw new Error('Sign in failed')
+
+      await startSession(payload, remember)
+    },
+    [client, startSession]
+  )
+
+  const signUp = useCallback(
+    async (
+      email: string,
+      password: string,
+      remember = true
+    ): Promise<void> => {
+      const result = await client.mutate({
+        mutation: signUpMutation,
+        variables: { email, password, cookies: remember }
+      })
+      const payload = result.data && result.data.signUp
+      if (!payload) throw new Error('Sign up failed')
+
+      await startSession(payload, remember)
+    },
+    [client, startSession]
+  )
+
+  const signOut = useCallback(async (): Promise<void> => {
+    try {
+      await client.mutate({ mutation: signOutMutation })
+    } finally {
+      // forgets the user locally even if the api couldn't be reached
+      tokens.clear()
+      await client.resetStore()
+    }
+  }, [client, tokens])
+
+  const signOutEverywhere = useCallback(async (): Promise<
+    void
+  > => {
+    await client.mutate({
+      mutation: invalidateTokensMutation
+    })
+    // the current session was revoked too, so its cookies are cleared
+    await signOut()
+  }, [client, signOut])
+
+  const user = (data && data.me) || null
+
+  const value = useMemo(
+    (): AuthState => ({
+      user,
+      loading,
+      signIn,
+      verifySecondFactor,
+      signUp,
+      signOut,
+      signOutEverywhere
+    }),
+    [
+      user,
+      loading,
+      signIn,
+      verifySecondFactor,
+      signUp,
+      signOut,
+      signOutEverywhere
+    ]
+  )
+
+  return (
+    <AuthContext.Provider value={value}>
+      {user && typeof window !== 'undefined' && (
+        <SessionRevokedListener onRevoked={signOut} />
+      )}
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+/**
+ * Reads the current user & auth actions
+ * @returns auth state of the closest AuthProvider
+ */
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext)
+  if (!auth)
+    throw new Error(
+      'useAuth must be used within an AuthProvider'
+    )
+
+  return auth
+}
@@ -0,0 +1,233 @@
+import {
+  ApolloLink,
+  Observable,
+  FetchResult
+} from 'apollo-boost'
+
+import { TokenStore, AuthTokens } from './tokens'
+import { refreshTokensMutation } from './documents'
+
+// must match the cookie & header read by the api
+const CSRF_COOKIE = 'csrf-token'
+const CSRF_HEADER = 'x-csrf-token'
+
+/**
+ * Options for refreshing tokens
+ * @typedef TokenRefresherOptions
+ */
+export interface TokenRefresherOptions {
+  /** GraphQL endpoint tokens are refreshed at */
+  uri: string
+  tokens: TokenStore
+  /** fetch used to refresh tokens, defaults to the global fetch */
+  fetch?: typeof fetch
+}
+
+/**
+ * Refreshes the tokens of the store, resolves whether they were refreshed
+ * @typedef TokenRefresher
+ */
+export type TokenRefresher = () => Promise<boolean>
+
+/**
+ * Options for the auth link
+ * @typedef AuthLinkOptions
+ */
+export interface AuthLinkOptions
+  extends TokenRefresherOptions {
+  /** shares refreshes with other links, one is generated from the options by default */
+  refresh?: TokenRefresher
+}
+
+/**
+ * Reads the csrf token the api sets next to the auth cookies
+ * @returns csrf token, `null` outside the browser or when there's none
+ */
+const readCsrfToken = (): string | null => {
+  if (typeof document === 'undefined') return null
+
+  const cookie = document.cookie
+    .split(';')
+    .map((part): string => part.trim())
+    .find((part): boolean =>
+      part.startsWith(`${CSRF_COOKIE}=`)
+    )
+
+  return cookie
+    ? decodeURIComponent(
+        cookie.slice(CSRF_COOKIE.length + 1)
+      )
+    : null
+}
+
+/**
+ * Builds the headers authenticating a request
+ * @param tokens current tokens, if signed in
+ * @returns bearer & csrf headers
+ */
+export const authHeaders = (
+  tokens: AuthTokens | null
+): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  const csrfToken = readCsrfToken()
+
+  if (tokens)
+    headers.authorization = `Bearer ${tokens.accessToken}`
+  // requests authenticated by cookie after a reload need it for mutations
+  if (csrfToken) headers[CSRF_HEADER] = csrfToken
+
+  return headers
+}
+
+/**
+ * Checks whether the api rejected the request for lack of a valid access token
+ * @param result result of the operation
+ * @returns whether tokens should be refreshed
+ */
+const isUnauthenticated = ({
+  errors
+}: FetchResult): boolean =>
+  !!errors &&
+  errors.some(
+    ({ extensions }): boolean =>
+      !!extensions && extensions.code === 'UNAUTHENTICATED'
+  )
+
+/**
+ * Generates fn exchanging the refresh token for new tokens,
+ * concurrent calls share one request
+ * @param options endpoint, token store & fetch
+ * @returns token refresher
+ */
+export const generateTokenRefresher = ({
+  uri,
+  tokens,
+  fetch: fetchFn = fetch
+}: TokenRefresherOptions): TokenRefresher => {
+  let refreshing: Promise<boolean> | null = null
+
+  /**
+   * Exchanges the refresh token for new tokens
+   * @returns whether the tokens were refreshed
+   */
+  const requestRefresh = async (): Promise<boolean> => {
+    const current = tokens.get()
+    if (!current) return false
+
+    try {
+      const response = await fetchFn(uri, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json',
+          // the expired token keeps the api from falling back to the auth cookies
+          ...authHeaders(current)
+        },
+        body: JSON.stringify({
+          query: refreshTokensMutation,
+          variables: {
+            refreshToken: current.refreshToken,
+            cookies: tokens.usesCookies()
+          }
+        })
+      })
+      const { data } = await response.json()
+      const refreshed: AuthTokens | null =
+        data && data.refreshTokens
+
+      if (refreshed)
+        tokens.set(refreshed, tokens.usesCookies())
+      // refresh token was revoked or already used
+      else tokens.clear()
+
+      return !!refreshed
+    } catch (e) {
+      return false
+    }
+  }
+
+  return (): Promise<boolean> => {
+    if (!refreshing)
+      refreshing = requestRefresh().then(
+        (refreshed): boolean => {
+          refreshing = null
+          return refreshed
+        }
+      )
+
+    return refreshing
+  }
+}
+
+/**
+ * Generates link attaching the bearer token to operations.
+ * Expired tokens are refreshed before sending, operations rejected as UNAUTHENTICATED
+ * are retried once after refreshing
+ * @param options endpoint, token store, fetch & refresher
+ * @returns apollo link
+ */
+export const generateAuthLink = ({
+  refresh: sharedRefresh,
+  ...options
+}: AuthLinkOptions): ApolloLink => {
+  const { tokens } = options
+  const refresh =
+    sharedRefresh || generateTokenRefresher(options)
+
+  return new ApolloLink(
+    (operation, forward): Observable<FetchResult> =>
+      new Observable((observer): (() => void) => {
+        let subscription: {
+          unsubscribe: () => void
+        } | null = null
+        let retried = false
+        let retrying = false
+        let closed = false
+        // retries replace the auth headers set by the first attempt
+        const { headers = {} } = operation.getContext()
+
+        const send = (): void => {
+          if (closed) return
+
+          retrying = false
+          operation.setContext({
+            headers: {
+              ...headers,
+              ...authHeaders(tokens.get())
+            }
+          })
+
+          subscription = forward(operation).subscribe({
+            next: (result): void => {
+              if (
+                !retried &&
+                tokens.get() &&
+                isUnauthenticated(result)
+              ) {
+                retried = true
+                retrying = true
+                refresh().then(send)
+                return
+              }
+
+              observer.next(result)
+            },
+            error: (error): void => observer.error(error),
+            complete: (): void => {
+              if (!retrying) observer.complete()
+            }
+          })
+        }
+
+        const current = tokens.get()
+        if (current && tokens.isAccessTokenExpired())
+          refresh().then(send)
+        else send()
+
+        return (): void => {
+          closed = true
+          if (subscription) subscription.unsubscribe()
+        }
+      })
+  )
+}
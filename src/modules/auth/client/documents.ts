@@ -0,0 +1,130 @@
+import { gql, IntrospectionResultData } from 'apollo-boost'
+
+const authPayloadFields = gql`
+  fragment AuthPayloadFields on AuthPayload {
+    accessToken
+    refreshToken
+  }
+`
+
+export const meQuery = gql`
+  query Me {
+    me {
+      id
+      email
+      emailVerified
+      totpEnabled
+      roles
+    }
+  }
+`
+
+export const signInMutation = gql`
+  mutation SignIn(
+    $email: String!
+    $password: String!
+    $cookies: Boolean
+  ) {
+    signIn(
+      email: $email
+      password: $password
+      cookies: $cookies
+    ) {
+      ... on AuthPayload {
+        ...AuthPayloadFields
+      }
+      ... on SecondFactorChallenge {
+        challenge
+      }
+    }
+  }
+  ${authPayloadFields}
+`
+
+export const verifySecondFactorMutation = gql`
+  mutation VerifySecondFactor(
+    $challenge: String!
+    $code: String!
+    $cookies: Boolean
+  ) {
+    verifySecondFactor(
+      challenge: $challenge
+      code: $code
+      cookies: $cookies
+    ) {
+      ...AuthPayloadFields
+    }
+  }
+  ${authPayloadFields}
+`
+
+export const signUpMutation = gql`
+  mutation SignUp(
+    $email: String!
+    $password: String!
+    $cookies: Boolean
+  ) {
+    signUp(
+      email: $email
+      password: $password
+      cookies: $cookies
+    ) {
+      ...AuthPayloadFields
+    }
+  }
+  ${authPayloadFields}
+`
+
+export const signOutMutation = gql`
+  mutation SignOut {
+    signOut
+  }
+`
+
+export const invalidateTokensMutation = gql`
+  mutation InvalidateTokens {
+    invalidateTokens
+  }
+`
+
+export const sessionRevokedSubscription = gql`
+  subscription SessionRevoked {
+    sessionRevoked
+  }
+`
+
+/**
+ * Sent as plain request by the auth link, outside of the link chain
+ */
+export const refreshTokensMutation = `
+  mutation RefreshTokens(
+    $refreshToken: String!
+    $cookies: Boolean
+  ) {
+    refreshTokens(
+      refreshToken: $refreshToken
+      cookies: $cookies
+    ) {
+      accessToken
+      refreshToken
+    }
+  }
+`
+
+/**
+ * Members of the schema's unions so the cache can match fragments on them
+ */
+export const authPossibleTypes: IntrospectionResultData = {
+  __schema: {
+    types: [
+      {
+        kind: 'UNION',
+        name: 'SignInResult',
+        possibleTypes: [
+          { name: 'AuthPayload' },
+          { name: 'SecondFactorChallenge' }
+        ]
+      }
+    ]
+  }
+}
@@ -0,0 +1,6 @@
+export * from './tokens'
+export * from './documents'
+export * from './authLink'
+export * from './AuthProvider'
+export * from './navigation'
+export * from './subscriptionLink'
@@ -0,0 +1,25 @@
+/**
+ * Paths of the auth pages
+ */
+export const authPaths = Object.freeze({
+  signIn: '/signin',
+  signUp: '/signup',
+  account: '/account'
+})
+
+/**
+ * Checks the page to return to after signing in stays on this site
+ * @param returnTo path from the `returnTo` query param
+ * @param fallback path used when it's missing or points elsewhere
+ * @returns path to navigate to
+ */
+export const safeReturnTo = (
+  returnTo: string | string[] | undefined,
+  fallback = '/'
+): string =>
+  typeof returnTo === 'string' &&
+  returnTo.startsWith('/') &&
+  // `//host` & `/\host` are read as other sites by browsers
+  !/^\/[/\\]/.test(returnTo)
+    ? returnTo
+    : fallback
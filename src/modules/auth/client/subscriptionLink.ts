@@ -0,0 +1,59 @@
+import { ApolloLink } from 'apollo-boost'
+import { WebSocketLink } from 'apollo-link-ws'
+import { SubscriptionClient } from 'subscriptions-transport-ws'
+
+import { TokenStore } from './tokens'
+import { TokenRefresher, authHeaders } from './authLink'
+
+/**
+ * Options for the subscription link
+ * @typedef SubscriptionLinkOptions
+ */
+export interface SubscriptionLinkOptions {
+  /** WebSocket endpoint of the api */
+  uri: string
+  tokens: TokenStore
+  /** refresher shared with the auth link */
+  refresh: TokenRefresher
+}
+
+/**
+ * Link sending subscriptions over a WebSocket
+ * @typedef SubscriptionLink
+ */
+export interface SubscriptionLink {
+  link: ApolloLink
+  /** reopens the connection as the current user, active subscriptions are resumed */
+  reconnect: () => void
+}
+
+/**
+ * Generates link sending subscriptions over a WebSocket authenticated like http requests.
+ * The connection is opened with the first subscription & its user is fixed until it reconnects
+ * @param options endpoint, token store & refresher
+ * @returns subscription link
+ */
+export const generateSubscriptionLink = ({
+  uri,
+  tokens,
+  refresh
+}: SubscriptionLinkOptions): SubscriptionLink => {
+  const client = new SubscriptionClient(uri, {
+    reconnect: true,
+    lazy: true,
+    // read on every connect, the api can't refresh tokens over the WebSocket
+    connectionParams: async (): Promise<
+      Record<string, string>
+    > => {
+      if (tokens.get() && tokens.isAccessTokenExpired())
+        await refresh()
+
+      return authHeaders(tokens.get())
+    }
+  })
+
+  return Object.freeze({
+    link: new WebSocketLink(client),
+    reconnect: (): void => client.close(false, false)
+  })
+}
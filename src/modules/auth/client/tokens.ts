@@ -0,0 +1,93 @@
+/**
+ * Tokens returned when signing in or refreshing
+ * @typedef AuthTokens
+ */
+export interface AuthTokens {
+  accessToken: string
+  refreshToken: string
+}
+
+/**
+ * Keeps the tokens of the signed in user in memory
+ * @typedef TokenStore
+ */
+export interface TokenStore {
+  /**
+   * Current tokens
+   * @returns tokens, `null` when signed out or after a reload
+   */
+  get: () => AuthTokens | null
+  /**
+   * Replaces the current tokens
+   * @param tokens new tokens
+   * @param cookies whether the api also keeps the tokens in cookies
+   */
+  set: (tokens: AuthTokens, cookies: boolean) => void
+  /**
+   * Whether refreshed tokens should be kept in cookies too
+   * @returns whether the user asked to be remembered
+   */
+  usesCookies: () => boolean
+  /** Forgets the current tokens */
+  clear: () => void
+  /**
+   * Checks whether the access token expired.
+   * Tokens are only refreshed once expired, as refreshTokens rejects signed in users
+   * @returns whether it should be refreshed before use
+   */
+  isAccessTokenExpired: () => boolean
+}
+
+/**
+ * Reads the expiry of a JWT token without verifying it
+ * @param token JWT token
+ * @returns expiry in seconds since epoch, `0` if it can't be read
+ */
+const readExpiry = (token: string): number => {
+  try {
+    const payload = token
+      .split('.')[1]
+      .replace(/-/g, '+')
+      .replace(/_/g, '/')
+
+    return JSON.parse(atob(payload)).exp || 0
+  } catch (e) {
+    return 0
+  }
+}
+
+/**
+ * Generates store for the tokens of the signed in user.
+ * Tokens only live in memory, after a reload the httpOnly cookies authenticate requests
+ * @returns token store
+ */
+export const generateTokenStore = (): TokenStore => {
+  let tokens: AuthTokens | null = null
+  let expiresAt = 0
+  let withCookies = false
+
+  return Object.freeze({
+    get: (): AuthTokens | null => tokens,
+    set: (
+      newTokens: AuthTokens,
+      cookies: boolean
+    ): void => {
+      tokens = newTokens
+      expiresAt = readExpiry(newTokens.accessToken)
+      withCookies = cookies
+    },
+    usesCookies: (): boolean => withCookies,
+    clear: (): void => {
+      tokens = null
+      expiresAt = 0
+      withCookies = false
+    },
+    isAccessTokenExpired: (): boolean =>
+      expiresAt <= Date.now() / 1000
+  })
+}
+
+/**
+ * Tokens of the user signed in in this browser, never filled during SSR
+ */
+export const authTokens = generateTokenStore()
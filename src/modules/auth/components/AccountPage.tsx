@@ -0,0 +1,133 @@
+import React, { ReactElement, useState } from 'react'
+import NextLink from 'next/link'
+import {
+  Button,
+  CircularProgress,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@material-ui/core'
+
+import { useAuth, authPaths } from '@nextq/auth/client'
+import {
+  AuthLayout,
+  ErrorList,
+  useFormStyles
+} from './AuthLayout'
+import { getErrorMessages } from './errors'
+
+/**
+ * Shows the signed in user's account & lets them sign out of this or every device
+ * @returns account page
+ */
+export const AccountPage = (): ReactElement => {
+  const classes = useFormStyles({})
+  const {
+    user,
+    loading,
+    signOut,
+    signOutEverywhere
+  } = useAuth()
+  const [serverErrors, setServerErrors] = useState<
+    string[]
+  >([])
+  const [submitting, setSubmitting] = useState(false)
+
+  /**
+   * Runs a sign out action & shows its errors
+   * @param action sign out action of useAuth
+   * @returns click handler
+   */
+  const handleSignOut = (
+    action: () => Promise<void>
+  ): (() => Promise<void>) => async (): Promise<void> => {
+    setSubmitting(true)
+    setServerErrors([])
+    try {
+      await action()
+    } catch (e) {
+      setServerErrors(getErrorMessages(e))
+    }
+    setSubmitting(false)
+  }
+
+  if (loading)
+    return (
+      <AuthLayout title="Account">
+        <CircularProgress className={classes.submit} />
+      </AuthLayout>
+    )
+
+  if (!user)
+    return (
+      <AuthLayout title="Account">
+        <Typography className={classes.submit}>
+          You&apos;re signed out.{' '}
+          <NextLink
+            href={{
+              pathname: authPaths.signIn,
+              query: { returnTo: authPaths.account }
+            }}
+            passHref
+          >
+            <Link>Sign in</Link>
+          </NextLink>
+        </Typography>
+      </AuthLayout>
+    )
+
+  return (
+    <AuthLayout title="Account">
+      <List className={classes.form}>
+        <ListItem>
+          <ListItemText
+            primary="Email"
+            secondary={user.email}
+          />
+        </ListItem>
+        <ListItem>
+          <ListItemText
+            primary="Email verified"
+            secondary={user.emailVerified ? 'Yes' : 'No'}
+          />
+        </ListItem>
+        <ListItem>
+          <ListItemText
+            primary="Two-factor authentication"
+            secondary={user.totpEnabled ? 'On' : 'Off'}
+          />
+        </ListItem>
+        {user.roles.length > 0 && (
+          <ListItem>
+            <ListItemText
+              primary="Roles"
+              secondary={user.roles.join(', ')}
+            />
+          </ListItem>
+        )}
+      </List>
+      <ErrorList messages={serverErrors} />
+      <Button
+        fullWidth
+        variant="contained"
+        color="primary"
+        disabled={submitting}
+        className={classes.submit}
+        onClick={handleSignOut(signOut)}
+      >
+        Sign out
+      </Button>
+      <Button
+        fullWidth
+        variant="outlined"
+        color="secondary"
+        disabled={submitting}
+        onClick={handleSignOut(signOutEverywhere)}
+      >
+        Sign out of every device
+      </Button>
+    </AuthLayout>
+  )
+}
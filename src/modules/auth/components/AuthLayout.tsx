@@ -0,0 +1,95 @@
+import React, { ReactElement, ReactNode } from 'react'
+import {
+  Container,
+  Paper,
+  Typography
+} from '@material-ui/core'
+import {
+  makeStyles,
+  createStyles,
+  Theme
+} from '@material-ui/core/styles'
+
+// non-strict mode makes the hook require a props argument, pass `{}`
+export const useFormStyles = makeStyles((theme: Theme) =>
+  createStyles({
+    paper: {
+      marginTop: theme.spacing(8),
+      padding: theme.spacing(4),
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center'
+    },
+    form: {
+      width: '100%',
+      marginTop: theme.spacing(1)
+    },
+    submit: {
+      margin: theme.spacing(3, 0, 2)
+    },
+    errors: {
+      width: '100%',
+      marginTop: theme.spacing(2)
+    }
+  })
+)
+
+interface Props {
+  title: string
+  children: ReactNode
+}
+
+/**
+ * Centered card the auth pages are rendered in
+ * @param props title & content of the page
+ * @returns layout element
+ */
+export const AuthLayout = ({
+  title,
+  children
+}: Props): ReactElement => {
+  const classes = useFormStyles({})
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Paper className={classes.paper}>
+        <Typography component="h1" variant="h5">
+          {title}
+        </Typography>
+        {children}
+      </Paper>
+    </Container>
+  )
+}
+
+interface ErrorListProps {
+  messages: string[]
+}
+
+/**
+ * Shows the errors returned by the api
+ * @param props messages to show
+ * @returns list of errors, nothing when there are none
+ */
+export const ErrorList = ({
+  messages
+}: ErrorListProps): ReactElement | null => {
+  const classes = useFormStyles({})
+  if (!messages.length) return null
+
+  return (
+    <div className={classes.errors} role="alert">
+      {messages.map(
+        (message): ReactElement => (
+          <Typography
+            key={message}
+            color="error"
+            variant="body2"
+          >
+            {message}
+          </Typography>
+        )
+      )}
+    </div>
+  )
+}
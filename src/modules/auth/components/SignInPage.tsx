@@ -0,0 +1,234 @@
+import React, {
+  ReactElement,
+  FormEvent,
+  ChangeEvent,
+  useState,
+  useEffect
+} from 'react'
+import { useRouter } from 'next/router'
+import NextLink from 'next/link'
+import {
+  TextField,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  Link,
+  Typography
+} from '@material-ui/core'
+
+import {
+  useAuth,
+  authPaths,
+  safeReturnTo
+} from '@nextq/auth/client'
+import {
+  AuthLayout,
+  ErrorList,
+  useFormStyles
+} from './AuthLayout'
+import {
+  FieldErrors,
+  validateEmail,
+  validatePassword,
+  isValid
+} from './validation'
+import { getErrorMessages } from './errors'
+
+interface SignInFields {
+  email: string
+  password: string
+  code: string
+}
+
+/**
+ * Signs users in with their email & password, then their second factor if they enabled it.
+ * Users coming back from an OpenID Connect provider start at the second factor with the `challenge` query param.
+ * Users are sent to the `returnTo` query param once signed in
+ * @returns sign in page
+ */
+export const SignInPage = (): ReactElement => {
+  const classes = useFormStyles({})
+  const router = useRouter()
+  const { user, signIn, verifySecondFactor } = useAuth()
+  const returnTo = safeReturnTo(router.query.returnTo)
+  const queryChallenge = router.query.challenge
+
+  const [fields, setFields] = useState<SignInFields>({
+    email: '',
+    password: '',
+    code: ''
+  })
+  const [remember, setRemember] = useState(true)
+  const [challenge, setChallenge] = useState<string | null>(
+    null
+  )
+  const [fieldErrors, setFieldErrors] = useState<
+    FieldErrors<SignInFields>
+  >({})
+  const [serverErrors, setServerErrors] = useState<
+    string[]
+  >([])
+  const [submitting, setSubmitting] = useState(false)
+
+  // query is only filled in after the first render of static pages
+  useEffect((): void => {
+    if (typeof queryChallenge === 'string')
+      setChallenge(queryChallenge)
+  }, [queryChallenge])
+
+  // also sends users on once signing in refetched `me`
+  useEffect((): void => {
+    if (user) router.replace(returnTo)
+  }, [user, returnTo, router])
+
+  const setField = (
+    field: keyof SignInFields
+  ): ((event: ChangeEvent<HTMLInputElement>) => void) => (
+    event
+  ): void =>
+    setFields({ ...fields, [field]: event.target.value })
+
+  const validate = (): FieldErrors<SignInFields> =>
+    challenge
+      ? {
+          code: fields.code.trim()
+            ? undefined
+            : 'Code is required'
+        }
+      : {
+          email: validateEmail(fields.email),
+          password: validatePassword(fields.password)
+        }
+
+  const handleSubmit = async (
+    event: FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    event.preventDefault()
+
+    const errors = validate()
+    setFieldErrors(errors)
+    if (!isValid(errors)) return
+
+    setSubmitting(true)
+    setServerErrors([])
+    try {
+      if (challenge) {
+        await verifySecondFactor(
+          challenge,
+          fields.code.trim(),
+          remember
+        )
+      } else {
+        const outcome = await signIn(
+          fields.email.trim(),
+          fields.password,
+          remember
+        )
+        if (outcome.challenge) {
+          setChallenge(outcome.challenge)
+          setSubmitting(false)
+          return
+        }
+      }
+    } catch (e) {
+      setServerErrors(getErrorMessages(e))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthLayout title="Sign in">
+      <form
+        className={classes.form}
+        onSubmit={handleSubmit}
+        noValidate
+      >
+        {challenge ? (
+          <>
+            <Typography variant="body2">
+              Enter the code from your authenticator app or
+              one of your recovery codes
+            </Typography>
+            <TextField
+              variant="outlined"
+              margin="normal"
+              fullWidth
+              autoFocus
+              id="code"
+              label="Code"
+              autoComplete="one-time-code"
+              value={fields.code}
+              onChange={setField('code')}
+              error={!!fieldErrors.code}
+              helperText={fieldErrors.code}
+            />
+          </>
+        ) : (
+          <>
+            <TextField
+              variant="outlined"
+              margin="normal"
+              fullWidth
+              autoFocus
+              id="email"
+              label="Email"
+              type="email"
+              autoComplete="email"
+              value={fields.email}
+              onChange={setField('email')}
+              error={!!fieldErrors.email}
+              helperText={fieldErrors.email}
+            />
+            <TextField
+              variant="outlined"
+              margin="normal"
+              fullWidth
+              id="password"
+              label="Password"
+              type="password"
+              autoComplete="current-password"
+              value={fields.password}
+              onChange={setField('password')}
+              error={!!fieldErrors.password}
+              helperText={fieldErrors.password}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  color="primary"
+                  checked={remember}
+                  onChange={(event): void =>
+                    setRemember(event.target.checked)
+                  }
+                />
+              }
+              label="Remember me"
+            />
+          </>
+        )}
+        <ErrorList messages={serverErrors} />
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          color="primary"
+          disabled={submitting}
+          className={classes.submit}
+        >
+          {challenge ? 'Verify' : 'Sign in'}
+        </Button>
+        <NextLink
+          href={{
+            pathname: authPaths.signUp,
+            query: { returnTo }
+          }}
+          passHref
+        >
+          <Link variant="body2">
+            Don&apos;t have an account? Sign up
+          </Link>
+        </NextLink>
+      </form>
+    </AuthLayout>
+  )
+}
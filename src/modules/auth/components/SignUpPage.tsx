@@ -0,0 +1,194 @@
+import React, {
+  ReactElement,
+  FormEvent,
+  ChangeEvent,
+  useState,
+  useEffect
+} from 'react'
+import { useRouter } from 'next/router'
+import NextLink from 'next/link'
+import {
+  TextField,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  Link
+} from '@material-ui/core'
+
+import {
+  useAuth,
+  authPaths,
+  safeReturnTo
+} from '@nextq/auth/client'
+import {
+  AuthLayout,
+  ErrorList,
+  useFormStyles
+} from './AuthLayout'
+import {
+  FieldErrors,
+  validateEmail,
+  validatePassword,
+  isValid
+} from './validation'
+import { getErrorMessages } from './errors'
+
+interface SignUpFields {
+  email: string
+  password: string
+  confirmPassword: string
+}
+
+/**
+ * Signs new users up & signs them in.
+ * Users are sent to the `returnTo` query param once signed up
+ * @returns sign up page
+ */
+export const SignUpPage = (): ReactElement => {
+  const classes = useFormStyles({})
+  const router = useRouter()
+  const { user, signUp } = useAuth()
+  const returnTo = safeReturnTo(router.query.returnTo)
+
+  const [fields, setFields] = useState<SignUpFields>({
+    email: '',
+    password: '',
+    confirmPassword: ''
+  })
+  const [remember, setRemember] = useState(true)
+  const [fieldErrors, setFieldErrors] = useState<
+    FieldErrors<SignUpFields>
+  >({})
+  const [serverErrors, setServerErrors] = useState<
+    string[]
+  >([])
+  const [submitting, setSubmitting] = useState(false)
+
+  // also sends users on once signing in refetched `me`
+  useEffect((): void => {
+    if (user) router.replace(returnTo)
+  }, [user, returnTo, router])
+
+  const setField = (
+    field: keyof SignUpFields
+  ): ((event: ChangeEvent<HTMLInputElement>) => void) => (
+    event
+  ): void =>
+    setFields({ ...fields, [field]: event.target.value })
+
+  const handleSubmit = async (
+    event: FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    event.preventDefault()
+
+    const errors: FieldErrors<SignUpFields> = {
+      email: validateEmail(fields.email),
+      password: validatePassword(fields.password),
+      confirmPassword:
+        fields.confirmPassword === fields.password
+          ? undefined
+          : "Passwords don't match"
+    }
+    setFieldErrors(errors)
+    if (!isValid(errors)) return
+
+    setSubmitting(true)
+    setServerErrors([])
+    try {
+      await signUp(
+        fields.email.trim(),
+        fields.password,
+        remember
+      )
+    } catch (e) {
+      // the password policy is only checked by the api
+      setServerErrors(getErrorMessages(e))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthLayout title="Sign up">
+      <form
+        className={classes.form}
+        onSubmit={handleSubmit}
+        noValidate
+      >
+        <TextField
+          variant="outlined"
+          margin="normal"
+          fullWidth
+          autoFocus
+          id="email"
+          label="Email"
+          type="email"
+          autoComplete="email"
+          value={fields.email}
+          onChange={setField('email')}
+          error={!!fieldErrors.email}
+          helperText={fieldErrors.email}
+        />
+        <TextField
+          variant="outlined"
+          margin="normal"
+          fullWidth
+          id="password"
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          value={fields.password}
+          onChange={setField('password')}
+          error={!!fieldErrors.password}
+          helperText={fieldErrors.password}
+        />
+        <TextField
+          variant="outlined"
+          margin="normal"
+          fullWidth
+          id="confirmPassword"
+          label="Confirm password"
+          type="password"
+          autoComplete="new-password"
+          value={fields.confirmPassword}
+          onChange={setField('confirmPassword')}
+          error={!!fieldErrors.confirmPassword}
+          helperText={fieldErrors.confirmPassword}
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              color="primary"
+              checked={remember}
+              onChange={(event): void =>
+                setRemember(event.target.checked)
+              }
+            />
+          }
+          label="Remember me"
+        />
+        <ErrorList messages={serverErrors} />
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          color="primary"
+          disabled={submitting}
+          className={classes.submit}
+        >
+          Sign up
+        </Button>
+        <NextLink
+          href={{
+            pathname: authPaths.signIn,
+            query: { returnTo }
+          }}
+          passHref
+        >
+          <Link variant="body2">
+            Already have an account? Sign in
+          </Link>
+        </NextLink>
+      </form>
+    </AuthLayout>
+  )
+}
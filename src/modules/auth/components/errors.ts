@@ -0,0 +1,50 @@
+import { ApolloError } from 'apollo-boost'
+
+import {
+  ErrorMessages,
+  isErrorCode,
+  formatErrorMessage
+} from '@nextq/errors/client'
+
+/**
+ * Turns errors thrown by auth mutations into messages to show in forms.
+ * Errors with a code from the catalogue are shown in the language of the given messages
+ * @param error error thrown by a mutation
+ * @param messages translations overriding the default messages
+ * @returns messages explaining what went wrong
+ */
+export const getErrorMessages = (
+  error: Error,
+  messages: Partial<ErrorMessages> = {}
+): string[] => {
+  if (!(error instanceof ApolloError))
+    return [error.message]
+  if (error.networkError)
+    return ['Could not reach the server, please try again']
+
+  return error.graphQLErrors.reduce(
+    (errorMessages, { message, extensions }): string[] => {
+      // lists every rule of the password policy the password breaks
+      if (extensions && extensions.code === 'WEAK_PASSWORD')
+        return [
+          ...errorMessages,
+          ...extensions.violations.map(
+            (violation: { message: string }): string =>
+              violation.message
+          )
+        ]
+
+      return [
+        ...errorMessages,
+        extensions && isErrorCode(extensions.code)
+          ? formatErrorMessage(
+              extensions.code,
+              extensions,
+              messages
+            )
+          : message
+      ]
+    },
+    [] as string[]
+  )
+}
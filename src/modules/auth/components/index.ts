@@ -0,0 +1,7 @@
+export * from './AuthLayout'
+export * from './SignInPage'
+export * from './SignUpPage'
+export * from './AccountPage'
+export * from './errors'
+export * from './validation'
+export * from './withAuth'
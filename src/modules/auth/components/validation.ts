@@ -0,0 +1,47 @@
+/**
+ * Messages for the invalid fields of a form, keyed by field
+ * @typedef FieldErrors
+ */
+export type FieldErrors<F> = Partial<
+  Record<keyof F, string>
+>
+
+// same shape the api's EmailAddress scalar accepts, good enough to catch typos
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Checks the email before it's sent to the api
+ * @param email entered email
+ * @returns reason it's invalid, `undefined` if it's valid
+ */
+export const validateEmail = (
+  email: string
+): string | undefined => {
+  if (!email.trim()) return 'Email is required'
+  if (!EMAIL_PATTERN.test(email.trim()))
+    return 'Enter a valid email'
+
+  return undefined
+}
+
+/**
+ * Checks a password was entered, the api enforces the password policy
+ * @param password entered password
+ * @returns reason it's invalid, `undefined` if it's valid
+ */
+export const validatePassword = (
+  password: string
+): string | undefined =>
+  password ? undefined : 'Password is required'
+
+/**
+ * Checks whether a form has no invalid fields
+ * @param errors messages for the invalid fields
+ * @returns whether the form can be submitted
+ */
+export const isValid = <F>(
+  errors: FieldErrors<F>
+): boolean =>
+  Object.keys(errors).every(
+    (field): boolean => !errors[field as keyof F]
+  )
@@ -0,0 +1,211 @@
+import React, { ReactElement, useEffect } from 'react'
+import Router from 'next/router'
+import { NextPage } from 'next'
+import { ApolloAppContext } from 'next-with-apollo'
+import {
+  CircularProgress,
+  Typography
+} from '@material-ui/core'
+
+import {
+  useAuth,
+  meQuery,
+  authPaths,
+  AuthUser
+} from '@nextq/auth/client'
+import { AuthLayout, useFormStyles } from './AuthLayout'
+
+/**
+ * Who may see a protected page
+ * @typedef WithAuthOptions
+ */
+export interface WithAuthOptions {
+  /** users need at least one of these roles, any signed in user may see the page without */
+  roles?: string[]
+}
+
+/**
+ * Outcome of checking the user before rendering a protected page
+ * @typedef AuthCheck
+ */
+export type AuthCheck =
+  | 'allowed'
+  | 'redirecting'
+  | 'forbidden'
+
+interface AuthCheckProps {
+  authCheck: AuthCheck
+}
+
+/**
+ * Props of a protected page, the page's own props are only loaded once the check passed
+ * @typedef ProtectedPageProps
+ */
+export type ProtectedPageProps<P> =
+  | (P & { authCheck: 'allowed' })
+  | { authCheck: 'redirecting' | 'forbidden' }
+
+/**
+ * Wraps pages so only signed in users, optionally with one of the given roles, see them
+ * @typedef WithAuth
+ */
+export interface WithAuth {
+  <P>(Page: NextPage<P>): NextPage<ProtectedPageProps<P>>
+  (options: WithAuthOptions): <P>(
+    Page: NextPage<P>
+  ) => NextPage<ProtectedPageProps<P>>
+}
+
+/**
+ * Builds the sign in url which sends the user back afterwards
+ * @param returnTo path of the protected page
+ * @returns sign in url
+ */
+const signInUrl = (returnTo = '/'): string =>
+  `${authPaths.signIn}?returnTo=${encodeURIComponent(
+    returnTo
+  )}`
+
+/**
+ * Checks the user has one of the required roles
+ * @param user signed in user
+ * @param roles required roles, none means any user
+ * @returns whether the user may see the page
+ */
+const hasRequiredRole = (
+  user: AuthUser,
+  roles?: string[]
+): boolean =>
+  !roles ||
+  !roles.length ||
+  roles.some((role): boolean => user.roles.includes(role))
+
+/**
+ * Resolves the user through the api, which reads the same cookies & tokens as
+ * every other request, so pages rendered on the server see the browser's user
+ * @param ctx page context holding the apollo client
+ * @returns signed in user, `null` when signed out
+ */
+const resolveUser = async ({
+  apolloClient
+}: ApolloAppContext): Promise<AuthUser | null> => {
+  // anonymous users get an UNAUTHENTICATED error along with `me: null`
+  const { data } = await apolloClient.query<{
+    me: AuthUser | null
+  }>({ query: meQuery, errorPolicy: 'all' })
+
+  return (data && data.me) || null
+}
+
+/**
+ * Shown while the user is sent to sign in or lacks the required role
+ * @param props outcome of the auth check
+ * @returns placeholder page
+ */
+const AuthCheckView = ({
+  authCheck
+}: AuthCheckProps): ReactElement => {
+  const classes = useFormStyles({})
+
+  return authCheck === 'forbidden' ? (
+    <AuthLayout title="Access denied">
+      <Typography className={classes.submit}>
+        You don&apos;t have access to this page.
+      </Typography>
+    </AuthLayout>
+  ) : (
+    <AuthLayout title="Redirecting to sign in">
+      <CircularProgress className={classes.submit} />
+    </AuthLayout>
+  )
+}
+
+/**
+ * Protects the page with the given options
+ * @param Page page to protect
+ * @param options roles required to see the page
+ * @returns protected page
+ */
+const protectPage = <P extends {}>(
+  Page: NextPage<P>,
+  { roles }: WithAuthOptions
+): NextPage<ProtectedPageProps<P>> => {
+  const ProtectedPage: NextPage<ProtectedPageProps<P>> = (
+    props
+  ): ReactElement => {
+    const { user, loading } = useAuth()
+    // signing out on the page sends the user away too
+    const authCheck: AuthCheck =
+      props.authCheck !== 'allowed' || loading
+        ? props.authCheck
+        : !user
+        ? 'redirecting'
+        : hasRequiredRole(user, roles)
+        ? 'allowed'
+        : 'forbidden'
+
+    useEffect((): void => {
+      if (authCheck === 'redirecting')
+        Router.replace(signInUrl(Router.asPath))
+    }, [authCheck])
+
+    // the check only passes on the client if it passed when loading the props
+    return authCheck === 'allowed' &&
+      props.authCheck === 'allowed' ? (
+      <Page {...props} />
+    ) : (
+      <AuthCheckView authCheck={authCheck} />
+    )
+  }
+
+  ProtectedPage.getInitialProps = async (
+    ctx
+  ): Promise<ProtectedPageProps<P>> => {
+    const user = await resolveUser(ctx as ApolloAppContext)
+
+    if (!user) {
+      // redirects before anything is rendered on the server
+      if (ctx.res) {
+        ctx.res.writeHead(302, {
+          Location: signInUrl(ctx.asPath)
+        })
+        ctx.res.end()
+      }
+
+      return { authCheck: 'redirecting' }
+    }
+
+    if (!hasRequiredRole(user, roles)) {
+      if (ctx.res) ctx.res.statusCode = 403
+
+      return { authCheck: 'forbidden' }
+    }
+
+    // pages without getInitialProps get their props elsewhere, e.g. from _app
+    const pageProps: P = Page.getInitialProps
+      ? await Page.getInitialProps(ctx)
+      : Object.create(null)
+
+    return { ...pageProps, authCheck: 'allowed' }
+  }
+
+  ProtectedPage.displayName = `withAuth(${Page.displayName ||
+    Page.name ||
+    'Page'})`
+
+  return ProtectedPage
+}
+
+/**
+ * Wraps pages so only signed in users see them, use `withAuth({ roles })` to also
+ * require a role. Signed out users are redirected to sign in & sent back afterwards
+ */
+export const withAuth = ((
+  pageOrOptions: NextPage | WithAuthOptions
+): unknown =>
+  typeof pageOrOptions === 'function'
+    ? protectPage(pageOrOptions, {})
+    : <P extends {}>(
+        Page: NextPage<P>
+      ): NextPage<ProtectedPageProps<P>> =>
+        protectPage(Page, pageOrOptions)) as WithAuth
@@ -0,0 +1,150 @@
+import dotenv from 'dotenv'
+
+import {
+  loadConfig,
+  stringField,
+  numberField,
+  enumField,
+  booleanField,
+  ConfigField
+} from '@nextq/config/api'
+import {
+  authConfigSections,
+  OidcProviderConfig
+} from '@nextq/auth/api'
+import { pubSubConfigSections } from '@nextq/pubsub/api'
+
+export const isDev = process.env.NODE_ENV === 'development'
+
+if (isDev) dotenv.config()
+
+const appConfigSections = {
+  app: {
+    url: stringField({
+      env: 'APP_URL',
+      default: 'http://localhost:3000'
+    })
+  },
+  db: {
+    mongoURL1: stringField({ env: 'MONGOURL1' }),
+    /** only needed once a module uses DB2 */
+    mongoURL2: stringField({
+      env: 'MONGOURL2',
+      default: ''
+    }),
+    /** applies pending migrations when the api connects, otherwise they're applied with `yarn migrate up` */
+    migrateOnStartup: booleanField({
+      env: 'DB_MIGRATE_ON_STARTUP',
+      default: false
+    }),
+    /** `strict` stops the process when a database can't be reached */
+    startupMode: enumField<'strict' | 'lenient'>({
+      env: 'DB_STARTUP_MODE',
+      values: ['strict', 'lenient'],
+      default: 'strict'
+    }),
+    connectRetries: numberField({
+      env: 'DB_CONNECT_RETRIES',
+      default: 5,
+      min: 0,
+      integer: true
+    }),
+    /** milliseconds before the first retry, doubled for every further one */
+    retryDelay: numberField({
+      env: 'DB_RETRY_DELAY',
+      default: 500,
+      min: 0,
+      integer: true
+    })
+  },
+  errors: {
+    /** replaces messages of unexpected errors with a generic one so internals don't leak */
+    maskInternal: booleanField({
+      env: 'ERRORS_MASK_INTERNAL',
+      default: true
+    })
+  },
+  health: {
+    /** milliseconds a readiness check may take before it fails */
+    checkTimeout: numberField({
+      env: 'HEALTH_CHECK_TIMEOUT',
+      default: 2000,
+      min: 1,
+      integer: true
+    })
+  },
+  shutdown: {
+    /** milliseconds requests in flight are waited for on shutdown */
+    drainTimeout: numberField({
+      env: 'SHUTDOWN_DRAIN_TIMEOUT',
+      default: 10000,
+      min: 0,
+      integer: true
+    })
+  }
+}
+
+// comma separated names of the enabled providers
+const oidcProviderNames = (process.env.OIDC_PROVIDERS || '')
+  .split(',')
+  .map((name): string => name.trim())
+  .filter(Boolean)
+
+const oidcFields: Record<string, ConfigField<string>> = {}
+
+// each provider is configured with OIDC_<NAME>_ISSUER, _CLIENT_ID & _CLIENT_SECRET
+const oidcConfigSection = oidcProviderNames.reduce(
+  (section, name): Record<string, ConfigField<string>> => {
+    const prefix = `OIDC_${name.toUpperCase()}_`
+
+    section[`${name}.issuer`] = stringField({
+      env: `${prefix}ISSUER`
+    })
+    section[`${name}.clientId`] = stringField({
+      env: `${prefix}CLIENT_ID`
+    })
+    section[`${name}.clientSecret`] = stringField({
+      env: `${prefix}CLIENT_SECRET`
+    })
+
+    return section
+  },
+  oidcFields
+)
+
+/**
+ * Settings of the app & its modules, throws listing every missing or invalid one on startup
+ */
+export const appConfig = loadConfig(
+  {
+    ...appConfigSections,
+    ...authConfigSections,
+    ...pubSubConfigSections,
+    oidc: oidcConfigSection
+  },
+  {
+    overrides: {
+      // local servers usually run without https
+      development: {
+        cookies: { secure: false },
+        // keeps the dev server up while the databases start
+        db: {
+          startupMode: 'lenient',
+          migrateOnStartup: true
+        },
+        // shows what went wrong instead of the generic message
+        errors: { maskInternal: false }
+      }
+    }
+  }
+)
+
+export const oidcProviders: OidcProviderConfig[] = oidcProviderNames.map(
+  (name): OidcProviderConfig => ({
+    name,
+    issuer: appConfig.oidc[`${name}.issuer`],
+    clientId: appConfig.oidc[`${name}.clientId`],
+    clientSecret: appConfig.oidc[`${name}.clientSecret`],
+    redirectUri: `${appConfig.app.url}/api/auth/${name}/callback`
+  })
+)
@@ -1,49 +1,216 @@
-import {
-  MongoConnector,
-  MongoEntity
-} from 'apollo-connector-mongodb'
-import lruCache from 'lru-cache'
+import { MongoClient } from 'mongodb'
+import { MongoConnector } from 'apollo-connector-mongodb'
 
-import { User } from '@loaf/auth'
 export interface DBConfig {
+  /** name modules ask for the connection with */
   name: string
   url: string
+  /** database used on the server, the connection's name by default */
+  dbName?: string
 }
 
+/**
+ * How often & how patiently connections are attempted
+ * @typedef ConnectOptions
+ */
+export interface ConnectOptions {
+  /** attempts after the first one failed */
+  retries: number
+  /** milliseconds before the first retry, doubled for every further one */
+  retryDelay: number
+  /** upper bound of the delay between retries */
+  maxRetryDelay: number
+}
+
+const defaultConnectOptions: ConnectOptions = {
+  retries: 5,
+  retryDelay: 500,
+  maxRetryDelay: 1000 * 10
+}
+
+/**
+ * Open connections, looked up by name
+ * @typedef DBConnections
+ */
+export interface DBConnections {
+  /** names of the open connections */
+  names: string[]
+  /**
+   * Looks up the connection
+   * @param name name of the connection
+   * @returns connector, throws when there's no such connection
+   */
+  get: (name: string) => MongoConnector
+  /**
+   * Whether the connection currently reaches its server, the driver reconnects by itself
+   * @param name name of the connection
+   * @returns whether it's connected
+   */
+  isConnected: (name: string) => boolean
+  /** Closes every connection, e.g. on shutdown */
+  close: () => Promise<void>
+}
+
+/**
+ * Waits for the given time
+ * @param ms milliseconds to wait
+ */
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve): void => {
+    setTimeout(resolve, ms)
+  })
+
+/**
+ * Connects to the database, retrying with exponential backoff
+ * @param config name & url of the database
+ * @param options retries & delays
+ * @returns connected connector, throws once every attempt failed
+ */
+const connect = async (
+  { name, url, dbName = name }: DBConfig,
+  { retries, retryDelay, maxRetryDelay }: ConnectOptions
+): Promise<MongoConnector> => {
+  const connector = new MongoConnector(url, dbName)
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // the unified topology keeps reconnecting after connections drop
+      connector.client = await MongoClient.connect(url, {
+        useNewUrlParser: true,
+        useUnifiedTopology: true
+      })
+      connector.db = connector.client.db(dbName)
+
+      return connector
+    } catch (e) {
+      if (attempt >= retries)
+        throw new Error(
+          `Failed to connect to ${name} after ${attempt +
+            1} attempts: ${e.message}`
+        )
+
+      const delay = Math.min(
+        retryDelay * 2 ** attempt,
+        maxRetryDelay
+      )
+      console.error(
+        `Failed to connect to ${name}, retrying in ${delay}ms`
+      )
+      await wait(delay)
+    }
+  }
+}
+
+/**
+ * Logs when the connection drops & comes back
+ * @param name name of the connection
+ * @param client client of the connection
+ */
+const watchConnection = (
+  name: string,
+  client: MongoClient
+): void => {
+  let connected = true
+
+  client.on('serverHeartbeatFailed', (): void => {
+    if (connected)
+      console.error(`Lost connection to ${name}`)
+    connected = false
+  })
+  client.on('serverHeartbeatSucceeded', (): void => {
+    if (!connected) console.info(`Reconnected to ${name}`)
+    connected = true
+  })
+}
+
+/**
+ * Connects to the databases, every one has to be reached for the promise to resolve
+ * @param configs names & urls of the databases
+ * @param options retries & delays
+ * @returns open connections
+ */
 export default async (
-  configs: DBConfig[]
-): Promise<MongoConnector[]> =>
-  Promise.all(
+  configs: DBConfig[],
+  options: Partial<ConnectOptions> = {}
+): Promise<DBConnections> => {
+  const connectOptions = {
+    ...defaultConnectOptions,
+    ...options
+  }
+  const results = await Promise.all(
     configs.map(
-      async ({
-        url,
-        name
-      }: DBConfig): Promise<MongoConnector> => {
-        const con = new MongoConnector(url, name)
+      async (
+        config
+      ): Promise<[string, MongoConnector | Error]> => {
         try {
-          await con.connect()
-
-          return con
-        } catch {
-          console.error(
-            `Failed to connect to ${con.dbName}`
-          )
-          return con
+          return [
+            config.name,
+            await connect(
+              config,
+              connectOptions
+            )
+          ]
+        } catch (e) {
+          return [config.name, e]
         }
       }
     )
   )
+  const connectors = results.reduce(
+    (
+      connected,
+      [name, connector]
+    ): Map<string, MongoConnector> =>
+      connector instanceof Error
+        ? connected
+        : connected.set(name, connector),
+    new Map<string, MongoConnector>()
+  )
 
-export interface AllEntities {
-  users: MongoEntity<User>
-}
+  const close = async (): Promise<void> => {
+    await Promise.all(
+      Array.from(connectors.values()).map(
+        (connector): Promise<void> => connector.disconnect()
+      )
+    )
+    connectors.clear()
+  }
 
-export const generateEntities = ([
-  DB1,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  DB2
-]: MongoConnector[]): AllEntities => ({
-  users: new MongoEntity(DB1, 'users', {
-    cacheMap: lruCache
+  const failures = results
+    .map(
+      ([, connector]): MongoConnector | Error => connector
+    )
+    .filter(
+      (connector): connector is Error =>
+        connector instanceof Error
+    )
+  if (failures.length) {
+    // the ones which did connect aren't used without the others
+    await close()
+    throw new Error(
+      failures
+        .map(({ message }): string => message)
+        .join('\n')
+    )
+  }
+
+  connectors.forEach((connector, name): void =>
+    watchConnection(name, connector.client)
+  )
+
+  const get = (name: string): MongoConnector => {
+    const connector = connectors.get(name)
+    if (!connector)
+      throw new Error(`There's no connection named ${name}`)
+
+    return connector
+  }
+
+  return Object.freeze({
+    names: Array.from(connectors.keys()),
+    get,
+    isConnected: (name: string): boolean =>
+      get(name).client.isConnected(),
+    close
   })
-})
+}
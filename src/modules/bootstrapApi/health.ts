@@ -0,0 +1,175 @@
+import { IncomingMessage, ServerResponse } from 'http'
+
+import { HealthCheck } from '@nextq/registry/api'
+
+import { appConfig } from './config'
+import {
+  connectServices,
+  closeServicesOnShutdown,
+  registry
+} from './services'
+import { isShuttingDown } from './shutdown'
+
+/**
+ * Outcome of one check
+ * @typedef CheckReport
+ */
+export interface CheckReport {
+  status: 'ok' | 'error'
+  /** reason the check failed */
+  error?: string
+  /** milliseconds the check took */
+  duration: number
+}
+
+/**
+ * Answer of the readiness probe
+ * @typedef ReadinessReport
+ */
+export interface ReadinessReport {
+  status: 'ok' | 'error' | 'shutting down'
+  /** outcome of every check keyed by the dependency it checks */
+  checks: Record<string, CheckReport>
+}
+
+/**
+ * Sends the body as uncached JSON
+ * @param res Response sent out to client
+ * @param statusCode status of the response
+ * @param body sent as JSON
+ */
+const sendJson = (
+  res: ServerResponse,
+  statusCode: number,
+  body: object
+): void => {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json')
+  res.setHeader('Cache-Control', 'no-store')
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Runs the check, failing it once it took too long
+ * @param check check to run
+ * @param timeout milliseconds the check may take
+ * @returns outcome of the check
+ */
+const runCheck = async (
+  check: HealthCheck,
+  timeout: number
+): Promise<CheckReport> => {
+  const start = Date.now()
+  let timer: NodeJS.Timeout | undefined
+
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject): void => {
+        timer = setTimeout(
+          (): void =>
+            reject(
+              new Error(`Timed out after ${timeout}ms`)
+            ),
+          timeout
+        )
+      })
+    ])
+
+    return { status: 'ok', duration: Date.now() - start }
+  } catch (e) {
+    return {
+      status: 'error',
+      error: e.message,
+      duration: Date.now() - start
+    }
+  } finally {
+    if (timer) clearTimeout(timer)
+  }
+}
+
+/**
+ * Checks whether the connection is up, connecting first if needed
+ * @param name name of the connection
+ * @returns check of the connection
+ */
+const databaseCheck = (
+  name: string
+): HealthCheck => async (): Promise<void> => {
+  // a probe must not stop the process like requests do in strict mode
+  const { connections } = await connectServices()
+  if (!connections.isConnected(name))
+    throw new Error(`Lost connection to ${name}`)
+}
+
+/**
+ * Liveness probe, answers as long as the process serves requests
+ * @param _ Request coming from client
+ * @param res Response sent out to client
+ */
+export const health = async (
+  _: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => sendJson(res, 200, { status: 'ok' })
+
+/**
+ * Readiness probe, checks every database the modules use & the checks they registered.
+ * Fails once the server is shutting down so no new requests are routed to it
+ * @param _ Request coming from client
+ * @param res Response sent out to client
+ */
+const checkReadiness = async (
+  _: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  if (isShuttingDown(res))
+    return sendJson(res, 503, {
+      status: 'shutting down',
+      checks: {}
+    })
+
+  const checks: Record<string, HealthCheck> = {
+    ...registry.databases.reduce<
+      Record<string, HealthCheck>
+    >(
+      (dbChecks, name): Record<string, HealthCheck> => ({
+        ...dbChecks,
+        [`db:${name}`]: databaseCheck(name)
+      }),
+      {}
+    ),
+    ...registry.checks
+  }
+  const names = Object.keys(checks)
+  const reports = await Promise.all(
+    names.map(
+      (name): Promise<CheckReport> =>
+        runCheck(
+          checks[name],
+          appConfig.health.checkTimeout
+        )
+    )
+  )
+  const report: ReadinessReport = {
+    status: reports.every(
+      ({ status }): boolean => status === 'ok'
+    )
+      ? 'ok'
+      : 'error',
+    checks: names.reduce<Record<string, CheckReport>>(
+      (byName, name, i): Record<string, CheckReport> => ({
+        ...byName,
+        [name]: reports[i]
+      }),
+      {}
+    )
+  }
+
+  sendJson(res, report.status === 'ok' ? 200 : 503, report)
+}
+
+// the probe connects to the databases it checks
+export const ready = closeServicesOnShutdown(
+  'ready',
+  checkReadiness
+)
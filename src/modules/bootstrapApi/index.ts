@@ -1,28 +1,128 @@
-import { ApolloServer, gql } from 'apollo-server-micro'
+import { ApolloServer } from 'apollo-server-micro'
+import { IncomingMessage, ServerResponse } from 'http'
+import { ConnectionContext } from 'subscriptions-transport-ws'
 
-const typeDefs = gql`
-  type Query {
-    sayHello: String
-  }
-`
+import { AuthContext } from '@nextq/auth/api'
+import { ConnectionParams } from '@nextq/registry/api'
+import { generateFormatError } from '@nextq/errors/api'
 
-const resolvers = {
-  Query: {
-    sayHello(): string {
-      return 'Hello World!'
-    }
-  }
+import generateSchema from './schema'
+import {
+  getModels,
+  closeServices,
+  registry
+} from './services'
+import { appConfig } from './config'
+import {
+  getServer,
+  trackRequests,
+  handleShutdownSignals,
+  AppServer
+} from './shutdown'
+
+const API_PATH = '/api'
+
+/**
+ * Builds the context for each incoming request, operations sent over a WebSocket
+ * reuse the context built when it was opened
+ * @param param0 Request & response objects from micro or the WebSocket connection
+ * @returns Context with the models & whatever each registered module adds
+ */
+const context = async ({
+  req,
+  res,
+  connection
+}: {
+  req?: IncomingMessage
+  res?: ServerResponse
+  connection?: { context: AuthContext }
+}): Promise<AuthContext> => {
+  if (connection) return connection.context
+
+  return registry.generateContext(
+    req,
+    res,
+    await getModels()
+  )
+}
+
+/**
+ * Builds the context of a WebSocket connection once it's opened
+ * @param params Params sent by the client when connecting
+ * @param _ WebSocket of the connection
+ * @param param2 Upgrade request of the connection
+ * @returns Context shared by every operation of the connection
+ */
+const onConnect = async (
+  params: object,
+  _: unknown,
+  { request }: ConnectionContext
+): Promise<AuthContext> => {
+  return registry.generateContext(
+    request,
+    // nothing is sent back over http, cookies set on it are dropped
+    new ServerResponse(request),
+    // loaders of the connection cache for as long as it's open
+    await getModels(),
+    (params || {}) as ConnectionParams
+  )
 }
 
 const apolloServer = new ApolloServer({
-  typeDefs,
-  resolvers
+  schema: generateSchema(),
+  context,
+  formatError: generateFormatError({
+    maskInternalErrors: appConfig.errors.maskInternal
+  }),
+  subscriptions: {
+    path: API_PATH,
+    onConnect
+  }
 })
 
+// operations in flight are waited for on shutdown
+const handler = trackRequests(
+  apolloServer.createHandler({
+    path: API_PATH
+  })
+)
+
+/**
+ * Attaches the subscription server to the http server Next runs on.
+ * Next only exposes it to requests, so WebSocket connections are accepted once
+ * the api served its first request, clients keep reconnecting until then
+ * @param server Server the api runs on
+ */
+const installSubscriptions = (server: AppServer): void => {
+  // reloaded modules in dev must not attach a second one
+  if (server.subscriptionsInstalled) return
+
+  apolloServer.installSubscriptionHandlers(server)
+  server.subscriptionsInstalled = true
+}
+
 export const config = {
   api: {
     bodyParser: false
   }
 }
 
-export default apolloServer.createHandler({ path: '/api' })
+export default (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  const server = getServer(res)
+
+  if (server) {
+    installSubscriptions(server)
+    handleShutdownSignals(server, {
+      name: 'api',
+      drainTimeout: appConfig.shutdown.drainTimeout,
+      // closes the WebSocket connections before the DBs they use
+      cleanup: (): Promise<void> =>
+        apolloServer.stop().then(closeServices)
+    })
+  }
+
+  return handler(req, res)
+}
@@ -0,0 +1,15 @@
+import {
+  generateJwksHandler,
+  generateKeySetDiscoveryHandler
+} from '@nextq/auth/api'
+
+import { appConfig } from './config'
+import { keySetSigner } from './services'
+
+export const jwks = generateJwksHandler(keySetSigner)
+
+// verifiers find the keys through it, they can't be served at the root's `/.well-known`
+export const openidConfiguration = generateKeySetDiscoveryHandler(
+  appConfig.app.url,
+  keySetSigner
+)
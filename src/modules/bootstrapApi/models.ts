@@ -1,10 +1,7 @@
-import { generateUserModel, UserModel } from '@loaf/auth'
-import { AllEntities } from './db'
+import { AuthModels } from '@nextq/auth/api'
 
-export interface Models {
-  users: UserModel
-}
-
-export default ({ users }: AllEntities): Models => ({
-  users: generateUserModel(users)
-})
+/**
+ * Data models of every registered module
+ * @typedef Models
+ */
+export type Models = AuthModels
@@ -0,0 +1,30 @@
+import {
+  generateOidcHandlers,
+  generateOidcProvider
+} from '@nextq/auth/api'
+
+import { appConfig, oidcProviders } from './config'
+import {
+  getModels,
+  tokenGenerator,
+  authCookies,
+  closeServicesOnShutdown
+} from './services'
+
+const handlers = generateOidcHandlers({
+  providers: oidcProviders.map(generateOidcProvider),
+  getModels,
+  tokenGenerator,
+  authCookies,
+  trustedProxies: appConfig.network.trustedProxies
+})
+
+// both routes look up users
+export const authorize = closeServicesOnShutdown(
+  'authorize',
+  handlers.authorize
+)
+export const callback = closeServicesOnShutdown(
+  'callback',
+  handlers.callback
+)
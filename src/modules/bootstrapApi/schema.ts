@@ -2,13 +2,12 @@ import { makeSchema } from 'nexus'
 import { join } from 'path'
 import { applyMiddleware } from 'graphql-middleware'
 
-import { AuthTypes, AuthPermissions } from '@nextq/auth/api'
-
 import { generatePermissions } from './utils'
+import { registry } from './services'
 import { GraphQLSchemaWithFragmentReplacements } from 'graphql-middleware/dist/types'
 
 export const schema = makeSchema({
-  types: [AuthTypes],
+  types: registry.types,
   outputs: {
     schema: join(__dirname, '../generated/schema.graphql'),
     typegen: join(
@@ -26,8 +25,10 @@ export const schema = makeSchema({
 })
 
 export default (): GraphQLSchemaWithFragmentReplacements => {
+  // permissions run first so module middlewares only see allowed requests
   const defaultMiddlewares = [
-    generatePermissions(AuthPermissions)
+    generatePermissions(registry.permissions),
+    ...registry.middlewares
   ]
 
   return applyMiddleware(schema, ...defaultMiddlewares)
@@ -0,0 +1,337 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { Collection } from 'mongodb'
+import {
+  tokenGeneratorWithSecrets,
+  tokenGeneratorWithSigners,
+  generateKeySetSigner,
+  keySetIssuer,
+  generateSecretSigner,
+  KeySetSigner,
+  generateOutboxMailer,
+  generatePasswordPolicy,
+  generateAuthCookies,
+  generateAuthModule,
+  commonPasswords,
+  AuthContext
+} from '@nextq/auth/api'
+import {
+  generateModuleRegistry,
+  ModuleEntities
+} from '@nextq/registry/api'
+import {
+  generatePubSub,
+  generateMemoryBackend,
+  generateMongoBackend,
+  generatePubSubModule,
+  StoredPubSubMessage
+} from '@nextq/pubsub/api'
+import {
+  generateMigrator,
+  Migrator,
+  AppliedMigration
+} from '@nextq/migrations/api'
+
+import connectDBs, { DBConfig, DBConnections } from './db'
+import { Models } from './models'
+import { appConfig } from './config'
+import {
+  getServer,
+  handleShutdownSignals,
+  RequestHandler
+} from './shutdown'
+
+// databases without a url are only an error once a module asks for them
+const dbConfigs: DBConfig[] = [
+  { name: 'DB1', url: appConfig.db.mongoURL1 },
+  { name: 'DB2', url: appConfig.db.mongoURL2 }
+].filter(({ url }): boolean => !!url)
+
+const connectOptions = {
+  retries: appConfig.db.connectRetries,
+  retryDelay: appConfig.db.retryDelay
+}
+
+const tokenLifetimes = {
+  accessToken: appConfig.tokens.accessTokenTtl,
+  refreshToken: appConfig.tokens.refreshTokenTtl
+}
+
+/**
+ * Signs access tokens when signing keys are configured, its public keys are served as JWKS
+ */
+export const keySetSigner: KeySetSigner | null = appConfig
+  .tokens.signingKeys.length
+  ? generateKeySetSigner(
+      appConfig.tokens.signingKeys,
+      keySetIssuer(appConfig.app.url)
+    )
+  : null
+
+// refresh & challenge tokens are only read by this app so they stay on the shared secrets
+export const tokenGenerator = keySetSigner
+  ? tokenGeneratorWithSigners(
+      {
+        access: keySetSigner,
+        refresh: generateSecretSigner(
+          appConfig.tokens.refreshSecret
+        ),
+        challenge: generateSecretSigner(
+          appConfig.tokens.accessSecret
+        )
+      },
+      tokenLifetimes
+    )
+  : tokenGeneratorWithSecrets(
+      appConfig.tokens.accessSecret,
+      appConfig.tokens.refreshSecret,
+      tokenLifetimes
+    )
+
+export const mailer = generateOutboxMailer(
+  appConfig.mail.outboxDir
+)
+
+export const passwordPolicy = generatePasswordPolicy({
+  minLength: appConfig.passwords.minLength,
+  requireLowercase: appConfig.passwords.requireLowercase,
+  requireUppercase: appConfig.passwords.requireUppercase,
+  requireDigit: appConfig.passwords.requireDigit,
+  requireSymbol: appConfig.passwords.requireSymbol,
+  bannedPasswords: [
+    ...commonPasswords,
+    ...appConfig.passwords.banned
+  ]
+})
+
+export const authCookies = generateAuthCookies({
+  secure: appConfig.cookies.secure,
+  sameSite: appConfig.cookies.sameSite,
+  domain: appConfig.cookies.domain || undefined,
+  accessTokenMaxAge: appConfig.tokens.accessTokenTtl,
+  refreshTokenMaxAge: appConfig.tokens.refreshTokenTtl
+})
+
+// kept to be closed with the services, the mongo backend opens it on first use
+let pubSubConnections: DBConnections | null = null
+
+/**
+ * Delivers subscription events, through the DB when the api runs as several processes
+ */
+export const pubSub = generatePubSub(
+  appConfig.pubSub.backend === 'mongo'
+    ? generateMongoBackend(
+        async (): Promise<
+          Collection<StoredPubSubMessage>
+        > => {
+          // change streams get a connection of their own, reused when only the index failed
+          if (!pubSubConnections)
+            pubSubConnections = await connectDBs(
+              [
+                {
+                  name: 'pubSub',
+                  url:
+                    appConfig.pubSub.mongoURL ||
+                    appConfig.db.mongoURL1
+                }
+              ],
+              connectOptions
+            )
+
+          return pubSubConnections
+            .get('pubSub')
+            .collection<StoredPubSubMessage>(
+              'pubSubMessages'
+            )
+        }
+      )
+    : generateMemoryBackend()
+)
+
+/**
+ * Modules making up the api
+ */
+export const registry = generateModuleRegistry<
+  Models,
+  AuthContext
+>([
+  generatePubSubModule(pubSub),
+  generateAuthModule({
+    tokenGenerator,
+    mailer,
+    passwordPolicy,
+    authCookies,
+    pubSub,
+    database: 'DB1',
+    appURL: appConfig.app.url,
+    hashCost: appConfig.passwords.bcryptCost,
+    auditLogTtl: appConfig.auditLog.ttl,
+    refreshReuseGrace: appConfig.tokens.refreshReuseGrace,
+    trustedProxies: appConfig.network.trustedProxies
+  })
+])
+
+// applied migrations are recorded here, whichever modules are registered
+const MIGRATIONS_DB = 'DB1'
+
+/**
+ * Connections the registered modules asked for, throws on startup when one isn't configured
+ */
+const moduleDBConfigs = [
+  MIGRATIONS_DB,
+  ...registry.databases.filter(
+    (name): boolean => name !== MIGRATIONS_DB
+  )
+].map(
+  (name): DBConfig => {
+    const config = dbConfigs.find(
+      (dbConfig): boolean => dbConfig.name === name
+    )
+    if (!config)
+      throw new Error(
+        `Database ${name} is used by a module but has no url configured`
+      )
+
+    return config
+  }
+)
+
+/**
+ * Connects to the databases of the registered modules
+ * @returns open connections
+ */
+export const connectModuleDBs = (): Promise<
+  DBConnections
+> => connectDBs(moduleDBConfigs, connectOptions)
+
+/**
+ * Generates migrator for the migrations of the registered modules
+ * @param connections connections of the registered modules
+ * @returns migrator
+ */
+export const generateAppMigrator = (
+  connections: DBConnections
+): Migrator =>
+  generateMigrator(
+    connections
+      .get(MIGRATIONS_DB)
+      .collection<AppliedMigration>('migrations'),
+    registry.migrations,
+    connections.get
+  )
+
+/**
+ * DB backed services shared across requests
+ * @typedef Services
+ */
+export interface Services {
+  connections: DBConnections
+  entities: ModuleEntities
+}
+
+let servicesPromise: Promise<Services> | null = null
+
+/**
+ * Connects to the DBs, applies pending migrations if configured & builds the collections only once per process.
+ * A failed attempt is forgotten so the next call tries again
+ * @returns Connections & collections shared across requests
+ */
+export const connectServices = (): Promise<Services> => {
+  if (!servicesPromise)
+    servicesPromise = connectModuleDBs()
+      .then(
+        async (connections): Promise<Services> => {
+          if (appConfig.db.migrateOnStartup)
+            await generateAppMigrator(connections)
+              .up()
+              .catch(
+                async (error): Promise<never> => {
+                  await connections.close()
+                  throw error
+                }
+              )
+
+          return {
+            connections,
+            entities: registry.generateEntities(
+              connections.get
+            )
+          }
+        }
+      )
+      .catch(
+        (error): Promise<Services> => {
+          servicesPromise = null
+          console.error(error.message)
+
+          return Promise.reject(error)
+        }
+      )
+
+  return servicesPromise
+}
+
+/**
+ * Connects the services for serving requests. When a database can't be reached,
+ * strict mode stops the process so it's restarted instead of serving errors,
+ * lenient mode tries again with the next request
+ * @returns Connections & collections shared across requests
+ */
+export const getServices = (): Promise<Services> =>
+  connectServices().catch(
+    (error): Promise<Services> => {
+      if (appConfig.db.startupMode === 'strict')
+        process.exit(1)
+
+      return Promise.reject(error)
+    }
+  )
+
+/**
+ * Closes the connections, the pub/sub one included, e.g. on shutdown
+ */
+export const closeServices = async (): Promise<void> => {
+  if (pubSubConnections) {
+    const connections = pubSubConnections
+    pubSubConnections = null
+    await connections.close()
+  }
+  if (!servicesPromise) return
+
+  const { connections } = await servicesPromise
+  servicesPromise = null
+  await connections.close()
+}
+
+/**
+ * Closes the connections of the route's bundle on shutdown, for routes using the services besides the api
+ * @param name name of the route
+ * @param handler handler of the route
+ * @returns handler adding the cleanup of its connections
+ */
+export const closeServicesOnShutdown = (
+  name: string,
+  handler: RequestHandler
+): RequestHandler => (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  const server = getServer(res)
+  if (server)
+    handleShutdownSignals(server, {
+      name,
+      drainTimeout: appConfig.shutdown.drainTimeout,
+      cleanup: closeServices
+    })
+
+  return handler(req, res)
+}
+
+/**
+ * Builds fresh data models, whose loaders only cache for as long as they're used
+ * @returns Data models for one request
+ */
+export const getModels = async (): Promise<Models> => {
+  const { entities } = await getServices()
+
+  return registry.generateModels(entities)
+}
@@ -0,0 +1,75 @@
+import { Server } from 'http'
+
+import {
+  AppServer,
+  handleShutdownSignals,
+  shutdown
+} from './shutdown'
+
+/**
+ * Generates server which is never listening
+ * @returns server to shut down
+ */
+const generateServer = (): AppServer => {
+  const server: AppServer = new Server()
+  jest
+    .spyOn(server, 'close')
+    .mockImplementation((): AppServer => server)
+
+  return server
+}
+
+beforeEach((): void => {
+  // the signals are never sent, the handlers would only outlive the test
+  jest
+    .spyOn(process, 'once')
+    .mockImplementation((): NodeJS.Process => process)
+})
+
+afterEach((): void => {
+  jest.restoreAllMocks()
+})
+
+describe('shutdown', (): void => {
+  it('runs the cleanup of every route once', async (): Promise<
+    void
+  > => {
+    const server = generateServer()
+    const cleaned: string[] = []
+    ;['api', 'ready'].forEach((name): void =>
+      handleShutdownSignals(server, {
+        name,
+        drainTimeout: 10,
+        cleanup: async (): Promise<void> => {
+          cleaned.push(name)
+        }
+      })
+    )
+
+    await shutdown(server, 10)
+    await shutdown(server, 10)
+
+    expect(cleaned).toEqual(['api', 'ready'])
+    expect(process.once).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps the latest cleanup of a reloaded route', async (): Promise<
+    void
+  > => {
+    const server = generateServer()
+    const cleaned: string[] = []
+    ;['first', 'reloaded'].forEach((version): void =>
+      handleShutdownSignals(server, {
+        name: 'ready',
+        drainTimeout: 10,
+        cleanup: async (): Promise<void> => {
+          cleaned.push(version)
+        }
+      })
+    )
+
+    await shutdown(server, 10)
+
+    expect(cleaned).toEqual(['reloaded'])
+  })
+})
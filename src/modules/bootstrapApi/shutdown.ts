@@ -0,0 +1,202 @@
+import {
+  IncomingMessage,
+  ServerResponse,
+  Server
+} from 'http'
+import { Socket } from 'net'
+
+/**
+ * Handler of an api route
+ * @typedef RequestHandler
+ */
+export type RequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse
+) => Promise<void>
+
+interface ShutdownState {
+  shuttingDown: boolean
+  signalsHandled: boolean
+  /** requests to tracked handlers which haven't been answered yet */
+  inFlight: number
+  /** called once the last request in flight was answered */
+  onDrained: (() => void) | null
+  /** cleanup of every route, each route is bundled with its own connections */
+  cleanups: Record<string, () => Promise<void>>
+}
+
+/**
+ * Http server Next runs on. Next bundles every api route on its own,
+ * so whatever the routes share is kept on the server
+ * @typedef AppServer
+ */
+export type AppServer = Server & {
+  subscriptionsInstalled?: boolean
+  shutdown?: ShutdownState
+}
+
+/**
+ * Options for shutting down
+ * @typedef ShutdownOptions
+ */
+export interface ShutdownOptions {
+  /** route the cleanup belongs to, a reloaded route replaces its own */
+  name: string
+  /** milliseconds to wait for requests in flight */
+  drainTimeout: number
+  /** run once the requests drained, e.g. closing subscriptions & connections */
+  cleanup: () => Promise<void>
+}
+
+/**
+ * Looks up the server the request came in on
+ * @param res Response of the request
+ * @returns server, `null` when Next doesn't expose it
+ */
+export const getServer = (
+  res: ServerResponse
+): AppServer | null =>
+  (res.connection as Socket & { server?: AppServer })
+    .server || null
+
+const getState = (server: AppServer): ShutdownState => {
+  if (!server.shutdown)
+    server.shutdown = {
+      shuttingDown: false,
+      signalsHandled: false,
+      inFlight: 0,
+      onDrained: null,
+      cleanups: {}
+    }
+
+  return server.shutdown
+}
+
+/**
+ * Checks whether the server the request came in on is shutting down
+ * @param res Response of the request
+ * @returns whether it's shutting down
+ */
+export const isShuttingDown = (
+  res: ServerResponse
+): boolean => {
+  const server = getServer(res)
+
+  return !!server && getState(server).shuttingDown
+}
+
+/**
+ * Wraps the handler so its requests are waited for on shutdown,
+ * new requests are refused with 503 once it started
+ * @param handler handler of an api route
+ * @returns tracked handler
+ */
+export const trackRequests = (
+  handler: RequestHandler
+): RequestHandler => async (
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> => {
+  const server = getServer(res)
+  if (!server) return handler(req, res)
+
+  const state = getState(server)
+  if (state.shuttingDown) {
+    res.statusCode = 503
+    res.setHeader('Connection', 'close')
+    res.end('Shutting down')
+    return
+  }
+
+  state.inFlight++
+  try {
+    await handler(req, res)
+  } finally {
+    state.inFlight--
+    if (!state.inFlight && state.onDrained)
+      state.onDrained()
+  }
+}
+
+/**
+ * Waits for the requests in flight, at most for the given time
+ * @param state shutdown state of the server
+ * @param timeout milliseconds to wait
+ */
+const drain = (
+  state: ShutdownState,
+  timeout: number
+): Promise<void> =>
+  new Promise((resolve): void => {
+    if (!state.inFlight) return resolve()
+
+    const timer = setTimeout((): void => {
+      console.error(
+        `${state.inFlight} requests still in flight after ${timeout}ms, shutting down anyway`
+      )
+      resolve()
+    }, timeout)
+    state.onDrained = (): void => {
+      clearTimeout(timer)
+      resolve()
+    }
+  })
+
+/**
+ * Stops accepting requests, waits for the ones in flight & runs the cleanup of every route,
+ * only the first call has an effect
+ * @param server server to shut down
+ * @param drainTimeout milliseconds to wait for requests in flight
+ */
+export const shutdown = async (
+  server: AppServer,
+  drainTimeout: number
+): Promise<void> => {
+  const state = getState(server)
+  if (state.shuttingDown) return
+
+  state.shuttingDown = true
+  // open connections are still served until they're done
+  server.close()
+  await drain(state, drainTimeout)
+  await Promise.all(
+    Object.keys(state.cleanups).map(
+      (name): Promise<void> => state.cleanups[name]()
+    )
+  )
+}
+
+/**
+ * Shuts down & exits once the process is asked to stop. Every route adds its cleanup,
+ * handlers are only installed once per server
+ * @param server server to shut down
+ * @param options name of the route, drain timeout & cleanup
+ */
+export const handleShutdownSignals = (
+  server: AppServer,
+  { name, drainTimeout, cleanup }: ShutdownOptions
+): void => {
+  const state = getState(server)
+  state.cleanups[name] = cleanup
+  // reloaded modules in dev must not install them again
+  if (state.signalsHandled) return
+
+  state.signalsHandled = true
+  ;(['SIGTERM', 'SIGINT'] as NodeJS.Signals[]).forEach(
+    (signal): void => {
+      process.once(signal, (): void => {
+        console.info(`Received ${signal}, shutting down`)
+        shutdown(server, drainTimeout).then(
+          (): never => process.exit(0),
+          (error): never => {
+            console.error(
+              'Failed to shut down cleanly',
+              error
+            )
+            return process.exit(1)
+          }
+        )
+      })
+    }
+  )
+}
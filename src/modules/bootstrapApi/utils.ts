@@ -3,7 +3,18 @@ import { shield, IRules } from 'graphql-shield'
 import { IMiddlewareGenerator } from 'graphql-middleware'
 import { mergeAll } from 'ramda'
 
+import { ForbiddenError } from '@nextq/errors/api'
+
+/**
+ * Generates middleware applying the permissions, denied requests fail with `FORBIDDEN`
+ * @param permissions shield rules keyed by type & field
+ * @returns permission middleware
+ */
 export const generatePermissions = (
   ...permissions: IRules[]
 ): IMiddlewareGenerator<any, any, any> =>
-  shield(mergeAll(permissions))
+  shield(mergeAll(permissions), {
+    fallbackError: new ForbiddenError(),
+    // errors thrown by rules & resolvers keep their codes, unexpected ones are masked by formatError
+    allowExternalErrors: true
+  })
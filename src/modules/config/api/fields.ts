@@ -0,0 +1,191 @@
+/**
+ * Setting read from an env variable
+ * @typedef ConfigField
+ */
+export interface ConfigField<T = unknown> {
+  /** env variable the value is read from */
+  env: string
+  /**
+   * Converts the raw env value
+   * @param raw value of the env variable
+   * @returns converted value, throws with the reason if it's invalid
+   */
+  parse: (raw: string) => T
+  /** used when the env variable isn't set, fields without one are required */
+  default?: T
+  /**
+   * Checks the value after it was parsed or taken from defaults
+   * @param value value to check
+   * @returns reason the value is invalid, `null` if it's valid
+   */
+  validate?: (value: T) => string | null
+}
+
+/**
+ * Settings grouped under one name, e.g. `db` or `tokens`
+ * @typedef ConfigSection
+ */
+export type ConfigSection = Record<string, ConfigField>
+
+/**
+ * Every section of the config
+ * @typedef ConfigSchema
+ */
+export type ConfigSchema = Record<string, ConfigSection>
+
+/**
+ * Values of a loaded config section
+ * @typedef SectionValues
+ */
+export type SectionValues<S extends ConfigSection> = {
+  [K in keyof S]: S[K] extends ConfigField<infer T>
+    ? T
+    : never
+}
+
+/**
+ * Values of a loaded config
+ * @typedef ConfigValues
+ */
+export type ConfigValues<C extends ConfigSchema> = {
+  [K in keyof C]: SectionValues<C[K]>
+}
+
+interface FieldOptions<T> {
+  env: string
+  default?: T
+}
+
+/**
+ * Builds field holding text
+ * @param param0 env variable, default & min length of the value
+ * @returns config field
+ */
+export const stringField = ({
+  minLength = 0,
+  ...options
+}: FieldOptions<string> & {
+  minLength?: number
+}): ConfigField<string> => ({
+  ...options,
+  parse: (raw: string): string => raw,
+  validate: (value: string): string | null =>
+    value.length < minLength
+      ? `must be at least ${minLength} characters long`
+      : null
+})
+
+/**
+ * Builds field holding a number
+ * @param param0 env variable, default & bounds of the value
+ * @returns config field
+ */
+export const numberField = ({
+  min = -Infinity,
+  max = Infinity,
+  integer = false,
+  ...options
+}: FieldOptions<number> & {
+  min?: number
+  max?: number
+  integer?: boolean
+}): ConfigField<number> => ({
+  ...options,
+  parse: (raw: string): number => {
+    const value = Number(raw)
+    if (raw.trim() === '' || isNaN(value))
+      throw new Error(`"${raw}" is not a number`)
+
+    return value
+  },
+  validate: (value: number): string | null => {
+    if (integer && !Number.isInteger(value))
+      return 'must be a whole number'
+    if (value < min) return `must be at least ${min}`
+    if (value > max) return `must be at most ${max}`
+
+    return null
+  }
+})
+
+/**
+ * Builds field holding a flag, set with `true`/`false` or `1`/`0`
+ * @param options env variable & default of the value
+ * @returns config field
+ */
+export const booleanField = (
+  options: FieldOptions<boolean>
+): ConfigField<boolean> => ({
+  ...options,
+  parse: (raw: string): boolean => {
+    if (['true', '1'].includes(raw.toLowerCase()))
+      return true
+    if (['false', '0'].includes(raw.toLowerCase()))
+      return false
+
+    throw new Error(`"${raw}" is not true or false`)
+  }
+})
+
+/**
+ * Builds field holding one of the given values
+ * @param param0 env variable, default & allowed values
+ * @returns config field
+ */
+export const enumField = <T extends string>({
+  values,
+  ...options
+}: FieldOptions<T> & {
+  values: T[]
+}): ConfigField<T> => ({
+  ...options,
+  parse: (raw: string): T => {
+    const value = values.find(
+      (allowed): boolean => allowed === raw.toLowerCase()
+    )
+    if (!value)
+      throw new Error(
+        `"${raw}" is not one of ${values.join(', ')}`
+      )
+
+    return value
+  }
+})
+
+/**
+ * Builds field holding a comma separated list
+ * @param options env variable & default of the value
+ * @returns config field
+ */
+export const listField = (
+  options: FieldOptions<string[]>
+): ConfigField<string[]> => ({
+  ...options,
+  parse: (raw: string): string[] =>
+    raw
+      .split(',')
+      .map((item): string => item.trim())
+      .filter(Boolean)
+})
+
+/**
+ * Builds field holding a JSON value
+ * @param param0 env variable, default & check of the parsed value
+ * @returns config field
+ */
+export const jsonField = <T>({
+  validate,
+  ...options
+}: FieldOptions<T> & {
+  validate?: (value: T) => string | null
+}): ConfigField<T> => ({
+  ...options,
+  parse: (raw: string): T => {
+    try {
+      return JSON.parse(raw)
+    } catch (e) {
+      throw new Error('is not valid JSON')
+    }
+  },
+  validate
+})
@@ -0,0 +1,179 @@
+import {
+  stringField,
+  numberField,
+  booleanField,
+  enumField,
+  listField,
+  jsonField
+} from './fields'
+import { loadConfig, ConfigError } from './loader'
+
+const schema = {
+  db: {
+    url: stringField({ env: 'DB_URL', minLength: 1 }),
+    poolSize: numberField({
+      env: 'DB_POOL_SIZE',
+      default: 5,
+      min: 1,
+      integer: true
+    }),
+    migrate: booleanField({
+      env: 'DB_MIGRATE',
+      default: false
+    })
+  },
+  app: {
+    mode: enumField({
+      env: 'APP_MODE',
+      default: 'strict',
+      values: ['strict', 'lenient']
+    }),
+    proxies: listField({ env: 'APP_PROXIES', default: [] }),
+    limits: jsonField<{ max: number }>({
+      env: 'APP_LIMITS',
+      default: { max: 1 }
+    })
+  }
+}
+
+/**
+ * Catches the error thrown while loading the config
+ * @param env env variables to load from
+ * @returns thrown config error
+ */
+const loadError = (
+  env: Record<string, string | undefined>
+): ConfigError => {
+  try {
+    loadConfig(schema, { env, environment: 'test' })
+  } catch (e) {
+    if (e instanceof ConfigError) return e
+    throw e
+  }
+
+  throw new Error('Config loaded')
+}
+
+describe('loadConfig', (): void => {
+  it('parses env variables & falls back to defaults', (): void => {
+    expect(
+      loadConfig(schema, {
+        env: {
+          DB_URL: 'mongodb://db',
+          DB_MIGRATE: 'TRUE',
+          APP_MODE: 'Lenient',
+          APP_PROXIES: ' 10.0.0.1, ,10.0.0.2 ',
+          APP_LIMITS: '{"max":3}'
+        },
+        environment: 'test'
+      })
+    ).toEqual({
+      db: {
+        url: 'mongodb://db',
+        poolSize: 5,
+        migrate: true
+      },
+      app: {
+        mode: 'lenient',
+        proxies: ['10.0.0.1', '10.0.0.2'],
+        limits: { max: 3 }
+      }
+    })
+  })
+
+  it('treats empty env variables as unset', (): void => {
+    expect(
+      loadConfig(schema, {
+        env: { DB_URL: 'mongodb://db', DB_POOL_SIZE: '' },
+        environment: 'test'
+      }).db.poolSize
+    ).toBe(5)
+  })
+
+  it('replaces defaults with the overrides of the environment', (): void => {
+    const overrides = {
+      development: { db: { poolSize: 2, migrate: true } }
+    }
+
+    expect(
+      loadConfig(schema, {
+        env: { DB_URL: 'mongodb://db', DB_MIGRATE: '0' },
+        environment: 'development',
+        overrides
+      }).db
+    ).toEqual({
+      url: 'mongodb://db',
+      poolSize: 2,
+      migrate: false
+    })
+    expect(
+      loadConfig(schema, {
+        env: { DB_URL: 'mongodb://db' },
+        environment: 'production',
+        overrides
+      }).db.poolSize
+    ).toBe(5)
+  })
+
+  it('lists every missing or invalid setting at once', (): void => {
+    const { issues, message } = loadError({
+      DB_POOL_SIZE: '2.5',
+      DB_MIGRATE: 'maybe',
+      APP_MODE: 'loose',
+      APP_LIMITS: '{'
+    })
+
+    expect(issues).toEqual([
+      {
+        key: 'db.url',
+        env: 'DB_URL',
+        message: 'is required'
+      },
+      {
+        key: 'db.poolSize',
+        env: 'DB_POOL_SIZE',
+        message: 'must be a whole number'
+      },
+      {
+        key: 'db.migrate',
+        env: 'DB_MIGRATE',
+        message: '"maybe" is not true or false'
+      },
+      {
+        key: 'app.mode',
+        env: 'APP_MODE',
+        message: '"loose" is not one of strict, lenient'
+      },
+      {
+        key: 'app.limits',
+        env: 'APP_LIMITS',
+        message: 'is not valid JSON'
+      }
+    ])
+    expect(message).toContain(
+      '  - db.url (DB_URL) is required'
+    )
+  })
+
+  it('validates values taken from overrides', (): void => {
+    expect((): void => {
+      loadConfig(schema, {
+        env: { DB_URL: 'mongodb://db' },
+        environment: 'test',
+        overrides: { test: { db: { poolSize: 0 } } }
+      })
+    }).toThrow(
+      'db.poolSize (DB_POOL_SIZE) must be at least 1'
+    )
+  })
+
+  it('freezes the loaded config', (): void => {
+    const config = loadConfig(schema, {
+      env: { DB_URL: 'mongodb://db' },
+      environment: 'test'
+    })
+
+    expect(Object.isFrozen(config)).toBe(true)
+    expect(Object.isFrozen(config.db)).toBe(true)
+  })
+})
@@ -0,0 +1,134 @@
+import {
+  ConfigSchema,
+  ConfigValues,
+  ConfigField
+} from './fields'
+
+/**
+ * Setting which couldn't be loaded along with the reason
+ * @typedef ConfigIssue
+ */
+export interface ConfigIssue {
+  /** path of the setting, e.g. `tokens.accessSecret` */
+  key: string
+  env: string
+  message: string
+}
+
+/**
+ * Thrown when settings are missing or invalid, lists every problem at once
+ */
+export class ConfigError extends Error {
+  public readonly issues: ConfigIssue[]
+
+  public constructor(issues: ConfigIssue[]) {
+    super(
+      [
+        'Invalid configuration:',
+        ...issues.map(
+          ({ key, env, message }): string =>
+            `  - ${key} (${env}) ${message}`
+        )
+      ].join('\n')
+    )
+
+    this.issues = issues
+  }
+}
+
+/**
+ * Values replacing the defaults of some settings, e.g. for development
+ * @typedef ConfigOverrides
+ */
+export type ConfigOverrides<C extends ConfigSchema> = {
+  [K in keyof C]?: Partial<ConfigValues<C>[K]>
+}
+
+/**
+ * Where settings are read from
+ * @typedef LoadConfigOptions
+ */
+export interface LoadConfigOptions<C extends ConfigSchema> {
+  /** variables to read settings from, defaults to `process.env` */
+  env?: Record<string, string | undefined>
+  /** name of the current environment, defaults to `NODE_ENV` */
+  environment?: string
+  /** defaults replaced per environment, env variables still take precedence */
+  overrides?: Record<string, ConfigOverrides<C>>
+}
+
+/**
+ * Reads & validates every setting of the schema
+ * @param schema sections of settings to load
+ * @param options env variables, environment & its overrides
+ * @returns loaded settings, throws `ConfigError` if any is missing or invalid
+ */
+export const loadConfig = <C extends ConfigSchema>(
+  schema: C,
+  {
+    env = process.env,
+    environment = process.env.NODE_ENV || 'development',
+    overrides = {}
+  }: LoadConfigOptions<C> = {}
+): ConfigValues<C> => {
+  const issues: ConfigIssue[] = []
+  const environmentOverrides: ConfigOverrides<C> =
+    overrides[environment] || {}
+
+  const loadedSections: Record<string, unknown> = {}
+  const config = Object.keys(schema).reduce(
+    (loaded, section): Record<string, unknown> => {
+      const sectionOverrides: Record<string, unknown> =
+        environmentOverrides[section] || {}
+      const sectionValues: Record<string, unknown> = {}
+
+      loaded[section] = Object.freeze(
+        Object.keys(schema[section]).reduce(
+          (values, key): Record<string, unknown> => {
+            const field: ConfigField = schema[section][key]
+            const raw = env[field.env]
+            const fallback =
+              sectionOverrides[key] !== undefined
+                ? sectionOverrides[key]
+                : field.default
+            const report = (message: string): void => {
+              issues.push({
+                key: `${section}.${key}`,
+                env: field.env,
+                message
+              })
+            }
+
+            if (raw === undefined || raw === '') {
+              if (fallback === undefined) {
+                report('is required')
+                return values
+              }
+              values[key] = fallback
+            } else
+              try {
+                values[key] = field.parse(raw)
+              } catch (e) {
+                report(e.message)
+                return values
+              }
+
+            const invalid =
+              field.validate && field.validate(values[key])
+            if (invalid) report(invalid)
+
+            return values
+          },
+          sectionValues
+        )
+      )
+
+      return loaded
+    },
+    loadedSections
+  )
+
+  if (issues.length) throw new ConfigError(issues)
+
+  return Object.freeze(config) as ConfigValues<C>
+}
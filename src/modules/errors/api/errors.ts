@@ -0,0 +1,40 @@
+import { ApolloError } from 'apollo-server-micro'
+
+import { ErrorCode, formatErrorMessage } from '../catalogue'
+
+/**
+ * Error with a code from the catalogue, its message is built from the catalogue too
+ */
+export class AppError extends ApolloError {
+  public constructor(
+    code: ErrorCode,
+    extensions: Record<string, unknown> = {}
+  ) {
+    super(formatErrorMessage(code, extensions), code)
+    // Apollo puts extra properties on the error rather than into its extensions
+    this.extensions = { ...extensions, code }
+
+    // named after the class thrown, kept out of the enumerable properties
+    Object.defineProperty(this, 'name', {
+      value: new.target.name
+    })
+  }
+}
+
+/**
+ * Thrown when the request needs a signed in user, clients refresh their tokens & retry
+ */
+export class UnauthenticatedError extends AppError {
+  public constructor() {
+    super('UNAUTHENTICATED')
+  }
+}
+
+/**
+ * Thrown when the user isn't allowed to do what was requested
+ */
+export class ForbiddenError extends AppError {
+  public constructor() {
+    super('FORBIDDEN')
+  }
+}
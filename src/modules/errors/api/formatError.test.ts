@@ -0,0 +1,107 @@
+import { GraphQLError } from 'graphql'
+
+import {
+  AppError,
+  UnauthenticatedError,
+  ForbiddenError
+} from './errors'
+import { generateFormatError } from './formatError'
+
+/**
+ * Wraps the error the way graphql-js does for errors thrown by resolvers
+ * @param error error thrown by a resolver
+ * @returns error passed to the formatter
+ */
+const fromResolver = (error: Error): GraphQLError =>
+  new GraphQLError(
+    error.message,
+    undefined,
+    undefined,
+    undefined,
+    ['me'],
+    error,
+    (error as AppError).extensions
+  )
+
+describe('AppError', (): void => {
+  it('builds its message from the catalogue', (): void => {
+    const error = new AppError('ACCOUNT_LOCKED', {
+      retryAfter: 30
+    })
+
+    expect(error.message).toBe(
+      'Too many failed sign in attempts, try again in 30 seconds'
+    )
+    expect(error.extensions).toMatchObject({
+      code: 'ACCOUNT_LOCKED',
+      retryAfter: 30
+    })
+  })
+
+  it('can be extended by errors naming themselves', (): void => {
+    expect(new UnauthenticatedError().name).toBe(
+      'UnauthenticatedError'
+    )
+    expect(new ForbiddenError().extensions.code).toBe(
+      'FORBIDDEN'
+    )
+  })
+})
+
+describe('generateFormatError', (): void => {
+  beforeEach((): void => {
+    jest
+      .spyOn(console, 'error')
+      .mockImplementation((): void => undefined)
+  })
+
+  afterEach((): void => {
+    jest.restoreAllMocks()
+  })
+
+  it('masks unexpected errors when configured', (): void => {
+    const formatError = generateFormatError({
+      maskInternalErrors: true
+    })
+
+    expect(
+      formatError(
+        fromResolver(new Error('connection refused'))
+      )
+    ).toMatchObject({
+      message: 'Something went wrong, please try again',
+      extensions: { code: 'INTERNAL_SERVER_ERROR' },
+      path: ['me']
+    })
+  })
+
+  it('passes unexpected errors on unless configured to mask them', (): void => {
+    const formatError = generateFormatError({
+      maskInternalErrors: false
+    })
+
+    expect(
+      formatError(
+        fromResolver(new Error('connection refused'))
+      ).message
+    ).toBe('connection refused')
+  })
+
+  it('translates coded errors with the given messages', (): void => {
+    const formatError = generateFormatError({
+      maskInternalErrors: true,
+      messages: {
+        ACCOUNT_LOCKED:
+          'Réessayez dans {retryAfter} secondes'
+      }
+    })
+
+    expect(
+      formatError(
+        fromResolver(
+          new AppError('ACCOUNT_LOCKED', { retryAfter: 5 })
+        )
+      ).message
+    ).toBe('Réessayez dans 5 secondes')
+  })
+})
@@ -0,0 +1,75 @@
+import {
+  GraphQLError,
+  GraphQLFormattedError
+} from 'graphql'
+
+import {
+  ErrorMessages,
+  isErrorCode,
+  formatErrorMessage
+} from '../catalogue'
+
+/**
+ * Options for formatting errors sent to clients
+ * @typedef FormatErrorOptions
+ */
+export interface FormatErrorOptions {
+  /** replaces messages of unexpected errors, which may reveal internals, with a generic one */
+  maskInternalErrors: boolean
+  /** translations overriding the default messages */
+  messages?: Partial<ErrorMessages>
+}
+
+/**
+ * Generates formatter for the errors sent to clients.
+ * Errors without a code are unexpected, they're logged & masked if configured
+ * @param options masking & messages
+ * @returns formatter to pass to Apollo Server as `formatError`
+ */
+export const generateFormatError = ({
+  maskInternalErrors,
+  messages = {}
+}: FormatErrorOptions): ((
+  error: GraphQLError
+) => GraphQLFormattedError) => (
+  error: GraphQLError
+): GraphQLFormattedError => {
+  const extensions = error.extensions || {}
+  // Apollo gives errors thrown without a code this one
+  const internal =
+    !extensions.code ||
+    extensions.code === 'INTERNAL_SERVER_ERROR'
+  const formatted = {
+    message: error.message,
+    locations: error.locations,
+    path: error.path,
+    extensions
+  }
+
+  if (internal) {
+    console.error(error.originalError || error)
+
+    return maskInternalErrors
+      ? {
+          ...formatted,
+          message: formatErrorMessage(
+            'INTERNAL_SERVER_ERROR',
+            {},
+            messages
+          ),
+          extensions: { code: 'INTERNAL_SERVER_ERROR' }
+        }
+      : formatted
+  }
+
+  return isErrorCode(extensions.code)
+    ? {
+        ...formatted,
+        message: formatErrorMessage(
+          extensions.code,
+          extensions,
+          messages
+        )
+      }
+    : formatted
+}
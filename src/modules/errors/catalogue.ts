@@ -0,0 +1,92 @@
+/**
+ * Stable codes sent in `extensions.code`, clients tell errors apart by them
+ * @typedef ErrorCode
+ */
+export type ErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'BAD_USER_INPUT'
+  | 'NOT_FOUND'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'INVALID_CREDENTIALS'
+  | 'EMAIL_TAKEN'
+  | 'ACCOUNT_DISABLED'
+  | 'ACCOUNT_LOCKED'
+  | 'WEAK_PASSWORD'
+  | 'CSRF_TOKEN_INVALID'
+  | 'INVALID_TOKEN'
+  | 'INVALID_CODE'
+  | 'TOTP_ALREADY_ENABLED'
+  | 'TOTP_NOT_ENABLED'
+  | 'TOTP_NOT_PENDING'
+  | 'CANNOT_REMOVE_OWN_ADMIN'
+  | 'CANNOT_DISABLE_SELF'
+
+/**
+ * Message of every code, `{name}` is replaced with the error's extension of that name
+ * @typedef ErrorMessages
+ */
+export type ErrorMessages = Record<ErrorCode, string>
+
+/**
+ * Messages in English, translations override them by code
+ */
+export const defaultErrorMessages: ErrorMessages = {
+  UNAUTHENTICATED: 'You must be signed in',
+  FORBIDDEN: "You aren't allowed to do this",
+  BAD_USER_INPUT: 'Invalid input',
+  NOT_FOUND: "Couldn't find what you were looking for",
+  INTERNAL_SERVER_ERROR:
+    'Something went wrong, please try again',
+  INVALID_CREDENTIALS: 'Invalid email or password',
+  EMAIL_TAKEN: 'An account with this email already exists',
+  ACCOUNT_DISABLED: 'Account is disabled',
+  ACCOUNT_LOCKED:
+    'Too many failed sign in attempts, try again in {retryAfter} seconds',
+  WEAK_PASSWORD: 'Password does not meet the requirements',
+  CSRF_TOKEN_INVALID: 'Missing or invalid csrf token',
+  INVALID_TOKEN: 'The link has expired or was already used',
+  INVALID_CODE: 'Invalid code',
+  TOTP_ALREADY_ENABLED:
+    'Two-factor authentication is already enabled',
+  TOTP_NOT_ENABLED:
+    'Two-factor authentication is not enabled',
+  TOTP_NOT_PENDING: 'No pending authenticator to confirm',
+  CANNOT_REMOVE_OWN_ADMIN:
+    "Can't remove your own admin role",
+  CANNOT_DISABLE_SELF: "Can't disable your own account"
+}
+
+/**
+ * Checks whether the code is in the catalogue
+ * @param code code of an error
+ * @returns whether it's a known code
+ */
+export const isErrorCode = (
+  code: unknown
+): code is ErrorCode =>
+  typeof code === 'string' &&
+  Object.prototype.hasOwnProperty.call(
+    defaultErrorMessages,
+    code
+  )
+
+/**
+ * Builds the message for the code, in the language of the given messages
+ * @param code code of the error
+ * @param params extensions of the error, filled into the message
+ * @param messages translations overriding the default messages
+ * @returns message for the code
+ */
+export const formatErrorMessage = (
+  code: ErrorCode,
+  params: Record<string, unknown> = {},
+  messages: Partial<ErrorMessages> = {}
+): string =>
+  (messages[code] || defaultErrorMessages[code]).replace(
+    /\{(\w+)\}/g,
+    (placeholder, name: string): string =>
+      params[name] === undefined
+        ? placeholder
+        : String(params[name])
+  )
@@ -0,0 +1,79 @@
+import { ObjectID } from 'mongodb'
+
+import {
+  generateFakeCollection,
+  asEntity,
+  FakeCollection,
+  FakeCursor
+} from '@nextq/testing/fakeCollection'
+
+import { generateByIdLoader } from './byIdLoader'
+
+interface Note {
+  _id: ObjectID
+  text: string
+}
+
+const first: Note = { _id: new ObjectID(), text: 'first' }
+const second: Note = { _id: new ObjectID(), text: 'second' }
+
+describe('generateByIdLoader', (): void => {
+  it('resolves ids in the order they were asked for', async (): Promise<
+    void
+  > => {
+    const loader = generateByIdLoader(
+      asEntity(
+        generateFakeCollection('notes', [first, second])
+      )
+    )
+
+    const notes = await loader.loadMany([
+      second._id.toHexString(),
+      first._id.toHexString()
+    ])
+
+    expect(
+      notes.map((note): string => (note ? note.text : null))
+    ).toEqual(['second', 'first'])
+  })
+
+  it('batches the lookups of a tick into one query', async (): Promise<
+    void
+  > => {
+    const notes = generateFakeCollection('notes', [
+      first,
+      second
+    ])
+    let queries = 0
+    const counted: FakeCollection<Note> = {
+      ...notes,
+      find: (selector?: object): FakeCursor<Note> => {
+        queries += 1
+        return notes.find(selector)
+      }
+    }
+    const loader = generateByIdLoader(asEntity(counted))
+
+    await Promise.all([
+      loader.load(first._id.toHexString()),
+      loader.load(second._id.toHexString())
+    ])
+
+    expect(queries).toBe(1)
+  })
+
+  it('resolves unknown & invalid ids to null', async (): Promise<
+    void
+  > => {
+    const loader = generateByIdLoader(
+      asEntity(generateFakeCollection('notes', [first]))
+    )
+
+    expect(
+      await loader.loadMany([
+        new ObjectID().toHexString(),
+        'not-an-id'
+      ])
+    ).toEqual([null, null])
+  })
+})
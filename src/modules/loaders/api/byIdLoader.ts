@@ -0,0 +1,65 @@
+import DataLoader from 'dataloader'
+import {
+  ObjectID,
+  FilterQuery,
+  RootQuerySelector
+} from 'mongodb'
+import { MongoEntity } from 'apollo-connector-mongodb'
+
+import { SharedCache } from './sharedCache'
+
+/**
+ * Options for a by id loader
+ * @typedef ByIdLoaderOptions
+ */
+export interface ByIdLoaderOptions<T> {
+  /** keeps loaded documents across requests, leave out unless they're safe to serve stale */
+  sharedCache?: SharedCache<Promise<T | null>>
+}
+
+/**
+ * Generates loader which batches the lookups of a tick into one `$in` query.
+ * Create one per request so documents are never served stale, & clear ids after updates
+ * @param entity collection to load documents from
+ * @param options shared cache to use instead of the per loader one
+ * @returns loader resolving ids to documents, `null` for unknown & invalid ids
+ */
+export const generateByIdLoader = <
+  T extends { _id: ObjectID }
+>(
+  entity: MongoEntity<T>,
+  { sharedCache }: ByIdLoaderOptions<T> = {}
+): DataLoader<string, T | null> =>
+  new DataLoader<string, T | null>(
+    async (
+      ids: readonly string[]
+    ): Promise<(T | null)[]> => {
+      const validIds = ids.filter((id): boolean =>
+        ObjectID.isValid(id)
+      )
+      // the fields of a generic T can't be checked, only the query's shape
+      const query: RootQuerySelector<T> = {
+        _id: {
+          $in: validIds.map(
+            (id): ObjectID => new ObjectID(id)
+          )
+        }
+      }
+      const found: T[] = validIds.length
+        ? await entity
+            .find(query as FilterQuery<T>)
+            .toArray()
+        : []
+      const byId = found.reduce(
+        (documents, document): Map<string, T> =>
+          documents.set(
+            document._id.toHexString(),
+            document
+          ),
+        new Map<string, T>()
+      )
+
+      return ids.map((id): T | null => byId.get(id) || null)
+    },
+    sharedCache ? { cacheMap: sharedCache } : {}
+  )
@@ -0,0 +1,2 @@
+export * from './sharedCache'
+export * from './byIdLoader'
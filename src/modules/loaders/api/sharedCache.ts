@@ -0,0 +1,52 @@
+import LRU from 'lru-cache'
+
+/**
+ * Cache a loader keeps its values in, shared by every request using it
+ * @typedef SharedCache
+ */
+export interface SharedCache<V> {
+  get: (key: string) => V | undefined
+  set: (key: string, value: V) => void
+  delete: (key: string) => void
+  clear: () => void
+}
+
+/**
+ * Options for a shared cache
+ * @typedef SharedCacheOptions
+ */
+export interface SharedCacheOptions {
+  /** number of values kept */
+  max: number
+  /** milliseconds after which values are loaded again */
+  maxAge: number
+}
+
+const defaultOptions: SharedCacheOptions = {
+  max: 500,
+  maxAge: 1000 * 60
+}
+
+/**
+ * Generates cache kept across requests. Only use it for data which may be served
+ * stale until it expires, e.g. documents which never change once written
+ * @param options size & lifetime of the cached values
+ * @returns shared cache
+ */
+export const generateSharedCache = <V>(
+  options: Partial<SharedCacheOptions> = {}
+): SharedCache<V> => {
+  const cache = new LRU<string, V>({
+    ...defaultOptions,
+    ...options
+  })
+
+  return Object.freeze({
+    get: (key: string): V | undefined => cache.get(key),
+    set: (key: string, value: V): void => {
+      cache.set(key, value)
+    },
+    delete: (key: string): void => cache.del(key),
+    clear: (): void => cache.reset()
+  })
+}
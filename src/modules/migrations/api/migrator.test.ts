@@ -0,0 +1,195 @@
+import {
+  generateFakeCollection,
+  asCollection,
+  FakeCollection
+} from '@nextq/testing/fakeCollection'
+import {
+  GetDatabase,
+  ModuleMigration
+} from '@nextq/registry/api'
+
+import {
+  generateMigrator,
+  AppliedMigration,
+  MigrationStatus
+} from './migrator'
+
+/**
+ * Generates migration logging when it runs
+ * @param module module defining it
+ * @param version version of the migration
+ * @param log names of the migrations run, in order
+ * @returns migration
+ */
+const migration = (
+  module: string,
+  version: string,
+  log: string[]
+): ModuleMigration => ({
+  module,
+  version,
+  description: `${module} ${version}`,
+  up: async (): Promise<void> => {
+    log.push(`up ${module}/${version}`)
+  },
+  down: async (): Promise<void> => {
+    log.push(`down ${module}/${version}`)
+  }
+})
+
+// the migrations under test don't use any database
+const getDatabase: GetDatabase = (): never => {
+  throw new Error('No databases in tests')
+}
+
+/**
+ * Lists the ids of the migrations
+ * @param statuses statuses returned by the migrator
+ * @returns `<module>/<version>` of each
+ */
+const ids = (statuses: MigrationStatus[]): string[] =>
+  statuses.map(
+    ({ module, version }): string => `${module}/${version}`
+  )
+
+describe('generateMigrator', (): void => {
+  let applied: FakeCollection<AppliedMigration>
+  let log: string[]
+
+  beforeEach((): void => {
+    applied = generateFakeCollection<AppliedMigration>(
+      'migrations'
+    )
+    log = []
+  })
+
+  it('applies pending migrations once, in order', async (): Promise<
+    void
+  > => {
+    const migrator = generateMigrator(
+      asCollection(applied),
+      [
+        migration('auth', '001', log),
+        migration('auth', '002', log)
+      ],
+      getDatabase
+    )
+
+    expect(ids(await migrator.up())).toEqual([
+      'auth/001',
+      'auth/002'
+    ])
+    expect(await migrator.up()).toEqual([])
+    expect(log).toEqual(['up auth/001', 'up auth/002'])
+    expect(
+      (await migrator.status()).every(
+        ({ appliedAt }): boolean =>
+          appliedAt instanceof Date
+      )
+    ).toBe(true)
+  })
+
+  it('stops at the first failing migration & releases the lock', async (): Promise<
+    void
+  > => {
+    const failing: ModuleMigration = {
+      ...migration('auth', '002', log),
+      up: async (): Promise<void> => {
+        throw new Error('index exists')
+      }
+    }
+    const migrator = generateMigrator(
+      asCollection(applied),
+      [
+        migration('auth', '001', log),
+        failing,
+        migration('auth', '003', log)
+      ],
+      getDatabase
+    )
+
+    await expect(migrator.up()).rejects.toThrow(
+      'Migration auth/002 failed: index exists'
+    )
+    expect(log).toEqual(['up auth/001'])
+    expect(
+      applied.docs.map(({ _id }): string => _id)
+    ).toEqual(['auth/001'])
+  })
+
+  it('refuses to run while another process holds the lock', async (): Promise<
+    void
+  > => {
+    await applied.insertOne({
+      _id: '$lock',
+      module: '',
+      version: '',
+      description: 'Held while migrations run',
+      appliedAt: new Date()
+    })
+    const migrator = generateMigrator(
+      asCollection(applied),
+      [migration('auth', '001', log)],
+      getDatabase
+    )
+
+    await expect(migrator.up()).rejects.toThrow(
+      'Migrations are already running'
+    )
+    expect(log).toEqual([])
+  })
+
+  it('reverts the most recently applied migrations', async (): Promise<
+    void
+  > => {
+    const migrator = generateMigrator(
+      asCollection(applied),
+      [
+        migration('auth', '001', log),
+        migration('auth', '002', log),
+        migration('auth', '003', log)
+      ],
+      getDatabase
+    )
+    await migrator.up()
+
+    expect(ids(await migrator.down(2))).toEqual([
+      'auth/003',
+      'auth/002'
+    ])
+    expect(log.slice(3)).toEqual([
+      'down auth/003',
+      'down auth/002'
+    ])
+    expect(
+      (await migrator.status()).map(
+        ({ appliedAt }): boolean => !!appliedAt
+      )
+    ).toEqual([true, false, false])
+  })
+
+  it('lists applied migrations no module defines anymore', async (): Promise<
+    void
+  > => {
+    await applied.insertOne({
+      _id: 'legacy/001',
+      module: 'legacy',
+      version: '001',
+      description: 'removed',
+      appliedAt: new Date()
+    })
+    const migrator = generateMigrator(
+      asCollection(applied),
+      [migration('auth', '001', log)],
+      getDatabase
+    )
+
+    expect(ids(await migrator.status())).toEqual([
+      'auth/001',
+      'legacy/001'
+    ])
+    await expect(migrator.down()).rejects.toThrow(
+      "Migration legacy/001 can't be reverted, no module defines it"
+    )
+  })
+})
@@ -0,0 +1,254 @@
+import { Collection } from 'mongodb'
+
+import {
+  GetDatabase,
+  ModuleMigration
+} from '@nextq/registry/api'
+
+/**
+ * Record of an applied migration
+ * @typedef AppliedMigration
+ */
+export interface AppliedMigration {
+  /** `<module>/<version>` */
+  _id: string
+  module: string
+  version: string
+  description: string
+  appliedAt: Date
+}
+
+/**
+ * Migration & whether it's applied
+ * @typedef MigrationStatus
+ */
+export interface MigrationStatus {
+  module: string
+  version: string
+  description: string
+  /** `null` while it's pending */
+  appliedAt: Date | null
+}
+
+/**
+ * Applies & reverts the migrations of the registered modules
+ * @typedef Migrator
+ */
+export interface Migrator {
+  /**
+   * Lists every migration, applied ones without a module defining them included
+   * @returns migrations in the order they're applied
+   */
+  status: () => Promise<MigrationStatus[]>
+  /**
+   * Applies every pending migration, stops at the first which fails
+   * @returns migrations applied by this call
+   */
+  up: () => Promise<MigrationStatus[]>
+  /**
+   * Reverts the most recently applied migrations
+   * @param steps how many to revert
+   * @returns migrations reverted by this call, most recent first
+   */
+  down: (steps?: number) => Promise<MigrationStatus[]>
+}
+
+// kept with the records so only one process migrates at a time
+const LOCK_ID = '$lock'
+
+/**
+ * Checks whether the error comes from a unique index
+ * @param error error thrown by the driver
+ * @returns whether it's a duplicate key error
+ */
+const isDuplicateKeyError = (
+  error: Error & { code?: number }
+): boolean => error.code === 11000
+
+const migrationId = ({
+  module,
+  version
+}: ModuleMigration | AppliedMigration): string =>
+  `${module}/${version}`
+
+/**
+ * Generates migrator recording applied migrations in the given collection
+ * @param applied collection of the applied migrations
+ * @param migrations migrations of every module, in the order they're applied
+ * @param getDatabase looks up connections by name
+ * @returns migrator
+ */
+export const generateMigrator = (
+  applied: Collection<AppliedMigration>,
+  migrations: ModuleMigration[],
+  getDatabase: GetDatabase
+): Migrator => {
+  /**
+   * Runs the fn while holding the lock, throws when another process holds it
+   * @param fn run while locked
+   * @returns result of the fn
+   */
+  const withLock = async <T>(
+    fn: () => Promise<T>
+  ): Promise<T> => {
+    try {
+      await applied.insertOne({
+        _id: LOCK_ID,
+        module: '',
+        version: '',
+        description: 'Held while migrations run',
+        appliedAt: new Date()
+      })
+    } catch (e) {
+      if (!isDuplicateKeyError(e)) throw e
+
+      throw new Error(
+        `Migrations are already running, remove the ${LOCK_ID} record from ${applied.collectionName} if a run crashed`
+      )
+    }
+
+    try {
+      return await fn()
+    } finally {
+      await applied.deleteOne({ _id: LOCK_ID })
+    }
+  }
+
+  const position = (id: string): number =>
+    migrations.findIndex(
+      (migration): boolean => migrationId(migration) === id
+    )
+
+  const listApplied = async (): Promise<
+    AppliedMigration[]
+  > => {
+    const records = await applied
+      .find({ _id: { $ne: LOCK_ID } })
+      .toArray()
+
+    // migrations applied within the same ms keep the order they were applied in
+    return records.sort(
+      (a, b): number =>
+        a.appliedAt.getTime() - b.appliedAt.getTime() ||
+        position(a._id) - position(b._id)
+    )
+  }
+
+  const toStatus = (
+    { module, version, description }: ModuleMigration,
+    record?: AppliedMigration
+  ): MigrationStatus => ({
+    module,
+    version,
+    description,
+    appliedAt: record ? record.appliedAt : null
+  })
+
+  const status = async (): Promise<MigrationStatus[]> => {
+    const records = await listApplied()
+    const known = migrations.map(migrationId)
+
+    return [
+      ...migrations.map(
+        (migration): MigrationStatus =>
+          toStatus(
+            migration,
+            records.find(
+              ({ _id }): boolean =>
+                _id === migrationId(migration)
+            )
+          )
+      ),
+      // applied by code which has since been removed
+      ...records
+        .filter(({ _id }): boolean => !known.includes(_id))
+        .map(
+          ({
+            module,
+            version,
+            description,
+            appliedAt
+          }): MigrationStatus => ({
+            module,
+            version,
+            description,
+            appliedAt
+          })
+        )
+    ]
+  }
+
+  const up = (): Promise<MigrationStatus[]> =>
+    withLock(
+      async (): Promise<MigrationStatus[]> => {
+        const records = await listApplied()
+        const pending = migrations.filter(
+          (migration): boolean =>
+            !records.some(
+              ({ _id }): boolean =>
+                _id === migrationId(migration)
+            )
+        )
+        const done: MigrationStatus[] = []
+
+        for (const migration of pending) {
+          const id = migrationId(migration)
+          try {
+            await migration.up(getDatabase)
+          } catch (e) {
+            throw new Error(
+              `Migration ${id} failed: ${e.message}`
+            )
+          }
+
+          const record = {
+            _id: id,
+            module: migration.module,
+            version: migration.version,
+            description: migration.description,
+            appliedAt: new Date()
+          }
+          await applied.insertOne(record)
+          done.push(toStatus(migration, record))
+        }
+
+        return done
+      }
+    )
+
+  const down = (steps = 1): Promise<MigrationStatus[]> =>
+    withLock(
+      async (): Promise<MigrationStatus[]> => {
+        const records = (await listApplied())
+          .reverse()
+          .slice(0, steps)
+        const done: MigrationStatus[] = []
+
+        for (const record of records) {
+          const migration = migrations.find(
+            (known): boolean =>
+              migrationId(known) === record._id
+          )
+          if (!migration)
+            throw new Error(
+              `Migration ${record._id} can't be reverted, no module defines it`
+            )
+
+          try {
+            await migration.down(getDatabase)
+          } catch (e) {
+            throw new Error(
+              `Reverting migration ${record._id} failed: ${e.message}`
+            )
+          }
+
+          await applied.deleteOne({ _id: record._id })
+          done.push(toStatus(migration))
+        }
+
+        return done
+      }
+    )
+
+  return Object.freeze({ status, up, down })
+}
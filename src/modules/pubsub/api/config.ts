@@ -0,0 +1,20 @@
+import { enumField, stringField } from '@nextq/config/api'
+
+/**
+ * Config sections contributed by the pub/sub module
+ */
+export const pubSubConfigSections = {
+  pubSub: {
+    /** `mongo` is needed once the api runs as more than one process */
+    backend: enumField<'memory' | 'mongo'>({
+      env: 'PUBSUB_BACKEND',
+      values: ['memory', 'mongo'],
+      default: 'memory'
+    }),
+    /** DB holding the messages, the first DB is used when empty */
+    mongoURL: stringField({
+      env: 'PUBSUB_MONGOURL',
+      default: ''
+    })
+  }
+}
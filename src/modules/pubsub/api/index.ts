@@ -0,0 +1,5 @@
+export * from './pubSub'
+export * from './memoryBackend'
+export * from './mongoBackend'
+export * from './config'
+export * from './module'
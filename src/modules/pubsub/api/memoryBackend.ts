@@ -0,0 +1,28 @@
+import { PubSubBackend, PubSubMessage } from './pubSub'
+
+/**
+ * Generates backend delivering messages within this process only,
+ * enough while the api runs as a single process
+ * @returns pub/sub backend
+ */
+export const generateMemoryBackend = (): PubSubBackend => {
+  let handlers: ((message: PubSubMessage) => void)[] = []
+
+  return Object.freeze({
+    publish: async (
+      message: PubSubMessage
+    ): Promise<void> =>
+      handlers.forEach((handler): void => handler(message)),
+    listen: (
+      onMessage: (message: PubSubMessage) => void
+    ): (() => void) => {
+      handlers = [...handlers, onMessage]
+
+      return (): void => {
+        handlers = handlers.filter(
+          (handler): boolean => handler !== onMessage
+        )
+      }
+    }
+  })
+}
@@ -0,0 +1,28 @@
+import {
+  defineModule,
+  ApiModule
+} from '@nextq/registry/api'
+
+import { PubSub } from './pubSub'
+
+/**
+ * Values the pub/sub module adds to the context
+ * @typedef PubSubContext
+ */
+export interface PubSubContext {
+  pubSub: PubSub
+}
+
+/**
+ * Generates the pub/sub module, which lets resolvers publish & subscribe
+ * @param pubSub pub/sub shared by every request & connection
+ * @returns module to register with the api
+ */
+export const generatePubSubModule = (
+  pubSub: PubSub
+): ApiModule<object, PubSubContext> =>
+  defineModule<object, PubSubContext>({
+    name: 'pubsub',
+    checks: { pubSub: pubSub.check },
+    context: (): PubSubContext => ({ pubSub })
+  })
@@ -0,0 +1,161 @@
+import {
+  Collection,
+  ChangeStream,
+  ChangeEvent
+} from 'mongodb'
+
+import { PubSubBackend, PubSubMessage } from './pubSub'
+
+/**
+ * Message as kept in the DB until it expires
+ * @typedef StoredPubSubMessage
+ */
+export interface StoredPubSubMessage extends PubSubMessage {
+  publishedAt: Date
+}
+
+/**
+ * Options for the mongo backend
+ * @typedef MongoBackendOptions
+ */
+export interface MongoBackendOptions {
+  /** seconds after which delivered messages are removed */
+  messageTtl: number
+  /** milliseconds to wait before reopening a failed change stream */
+  retryDelay: number
+}
+
+const defaultOptions: MongoBackendOptions = {
+  messageTtl: 60,
+  retryDelay: 1000
+}
+
+/**
+ * Generates backend delivering messages between processes through a collection.
+ * Every process watches the collection's change stream, which needs a replica set
+ * @param getCollection connects to the collection messages are written to, called once
+ * @param options message lifetime & retry delay
+ * @returns pub/sub backend
+ */
+export const generateMongoBackend = (
+  getCollection: () => Promise<
+    Collection<StoredPubSubMessage>
+  >,
+  options: Partial<MongoBackendOptions> = {}
+): PubSubBackend => {
+  const { messageTtl, retryDelay } = {
+    ...defaultOptions,
+    ...options
+  }
+  let collectionPromise: Promise<
+    Collection<StoredPubSubMessage>
+  > | null = null
+
+  const collection = (): Promise<
+    Collection<StoredPubSubMessage>
+  > => {
+    if (!collectionPromise)
+      collectionPromise = getCollection()
+        .then(
+          async (
+            messages
+          ): Promise<Collection<StoredPubSubMessage>> => {
+            // messages are only needed until every process received them
+            await messages.createIndex(
+              { publishedAt: 1 },
+              { expireAfterSeconds: messageTtl }
+            )
+
+            return messages
+          }
+        )
+        .catch(
+          (error): Promise<never> => {
+            // retried by the next call instead of failing every later one
+            collectionPromise = null
+
+            return Promise.reject(error)
+          }
+        )
+
+    return collectionPromise
+  }
+
+  const publish = async ({
+    topic,
+    payload
+  }: PubSubMessage): Promise<void> => {
+    const messages = await collection()
+    await messages.insertOne({
+      topic,
+      payload,
+      publishedAt: new Date()
+    })
+  }
+
+  const listen = (
+    onMessage: (message: PubSubMessage) => void
+  ): (() => void) => {
+    let stream: ChangeStream<
+      StoredPubSubMessage
+    > | null = null
+    let stopped = false
+
+    const open = async (): Promise<void> => {
+      // messages published while the stream is down are missed
+      const retry = (error: Error): void => {
+        console.error('Pub/sub change stream failed', error)
+        if (stream) stream.removeAllListeners()
+        stream = null
+        if (!stopped) setTimeout(open, retryDelay)
+      }
+
+      try {
+        const messages = await collection()
+        if (stopped) return
+
+        stream = messages.watch<StoredPubSubMessage>([
+          { $match: { operationType: 'insert' } }
+        ])
+        stream.on(
+          'change',
+          (
+            change: ChangeEvent<StoredPubSubMessage>
+          ): void => {
+            if (
+              change.operationType !== 'insert' ||
+              !change.fullDocument
+            )
+              return
+
+            onMessage({
+              topic: change.fullDocument.topic,
+              payload: change.fullDocument.payload
+            })
+          }
+        )
+        stream.on('error', retry)
+      } catch (e) {
+        retry(e)
+      }
+    }
+
+    open()
+
+    return (): void => {
+      stopped = true
+      if (stream) {
+        stream.removeAllListeners()
+        stream.close().catch((): void => undefined)
+        stream = null
+      }
+    }
+  }
+
+  const check = async (): Promise<void> => {
+    const messages = await collection()
+    await messages.findOne({}, { projection: { _id: 1 } })
+  }
+
+  return Object.freeze({ publish, listen, check })
+}
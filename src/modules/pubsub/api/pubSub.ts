@@ -0,0 +1,220 @@
+/**
+ * Message delivered to every subscriber of its topic
+ * @typedef PubSubMessage
+ */
+export interface PubSubMessage {
+  topic: string
+  payload: unknown
+}
+
+/**
+ * Delivers messages between the processes serving the api
+ * @typedef PubSubBackend
+ */
+export interface PubSubBackend {
+  /**
+   * Sends the message to every process, this one included
+   * @param message topic & payload to send
+   */
+  publish: (message: PubSubMessage) => Promise<void>
+  /**
+   * Starts delivering the messages published by any process
+   * @param onMessage called with every message
+   * @returns fn stopping the delivery
+   */
+  listen: (
+    onMessage: (message: PubSubMessage) => void
+  ) => () => void
+  /**
+   * Checks whether messages can be delivered, backends without one are always healthy
+   * @returns resolves when healthy, rejects with the reason otherwise
+   */
+  check?: () => Promise<void>
+}
+
+/**
+ * Publishes messages & subscribes to their topics
+ * @typedef PubSub
+ */
+export interface PubSub {
+  /**
+   * Sends the payload to every subscriber of the topic
+   * @param topic topic to publish to
+   * @param payload data sent to subscribers
+   */
+  publish: (
+    topic: string,
+    payload: unknown
+  ) => Promise<void>
+  /**
+   * Calls the listener with every payload published to the topic
+   * @param topic topic to subscribe to
+   * @param listener called with each payload
+   * @returns fn ending the subscription
+   */
+  subscribe: <T>(
+    topic: string,
+    listener: (payload: T) => void
+  ) => () => void
+  /**
+   * Iterates over the payloads published to the topics, as subscription resolvers expect
+   * @param topics topics to subscribe to
+   * @param filter keeps payloads the subscriber shouldn't see from being delivered
+   * @returns async iterator ending the subscription once returned
+   */
+  asyncIterator: <T>(
+    topics: string | string[],
+    filter?: (payload: T) => boolean
+  ) => AsyncIterableIterator<T>
+  /**
+   * Checks whether the backend can deliver messages
+   * @returns resolves when healthy, rejects with the reason otherwise
+   */
+  check: () => Promise<void>
+}
+
+/**
+ * Turns a subscription into an async iterator, payloads are queued until they're pulled
+ * @param subscribe starts the subscription
+ * @returns async iterator
+ */
+const toAsyncIterator = <T>(
+  subscribe: (listener: (payload: T) => void) => () => void
+): AsyncIterableIterator<T> => {
+  const pulls: ((result: IteratorResult<T>) => void)[] = []
+  const queued: T[] = []
+  let done = false
+
+  const unsubscribe = subscribe((payload): void => {
+    const pull = pulls.shift()
+
+    if (pull) pull({ value: payload, done: false })
+    else queued.push(payload)
+  })
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    if (!done) {
+      done = true
+      unsubscribe()
+      queued.length = 0
+      pulls
+        .splice(0)
+        .forEach((pull): void =>
+          pull({ value: undefined, done: true })
+        )
+    }
+
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  const iterator: AsyncIterableIterator<T> = {
+    next: (): Promise<IteratorResult<T>> =>
+      done
+        ? finish()
+        : queued.length
+        ? Promise.resolve({
+            value: queued.shift() as T,
+            done: false
+          })
+        : new Promise((resolve): void => {
+            pulls.push(resolve)
+          }),
+    return: finish,
+    throw: (error: Error): Promise<IteratorResult<T>> =>
+      finish().then(
+        (): Promise<IteratorResult<T>> =>
+          Promise.reject(error)
+      ),
+    [Symbol.asyncIterator]: (): AsyncIterableIterator<T> =>
+      iterator
+  }
+
+  return iterator
+}
+
+/**
+ * Generates pub/sub on top of the given backend.
+ * The backend is only listened to while there are subscribers in this process
+ * @param backend delivers the messages between processes
+ * @returns pub/sub
+ */
+export const generatePubSub = (
+  backend: PubSubBackend
+): PubSub => {
+  const listeners = new Map<
+    string,
+    ((payload: unknown) => void)[]
+  >()
+  let stopListening: (() => void) | null = null
+
+  const deliver = ({
+    topic,
+    payload
+  }: PubSubMessage): void =>
+    (listeners.get(topic) || []).forEach(
+      (listener): void => {
+        try {
+          listener(payload)
+        } catch (e) {
+          console.error(`Subscriber of ${topic} failed`, e)
+        }
+      }
+    )
+
+  const subscribe = <T>(
+    topic: string,
+    listener: (payload: T) => void
+  ): (() => void) => {
+    const untyped = listener as (payload: unknown) => void
+
+    listeners.set(topic, [
+      ...(listeners.get(topic) || []),
+      untyped
+    ])
+    if (!stopListening)
+      stopListening = backend.listen(deliver)
+
+    return (): void => {
+      const remaining = (listeners.get(topic) || []).filter(
+        (current): boolean => current !== untyped
+      )
+
+      if (remaining.length) listeners.set(topic, remaining)
+      else listeners.delete(topic)
+
+      if (!listeners.size && stopListening) {
+        stopListening()
+        stopListening = null
+      }
+    }
+  }
+
+  return Object.freeze({
+    publish: (
+      topic: string,
+      payload: unknown
+    ): Promise<void> => backend.publish({ topic, payload }),
+    subscribe,
+    asyncIterator: <T>(
+      topics: string | string[],
+      filter?: (payload: T) => boolean
+    ): AsyncIterableIterator<T> =>
+      toAsyncIterator<T>((push): (() => void) => {
+        const unsubscribes = (Array.isArray(topics)
+          ? topics
+          : [topics]
+        ).map((topic): (() => void) =>
+          subscribe<T>(topic, (payload): void => {
+            if (!filter || filter(payload)) push(payload)
+          })
+        )
+
+        return (): void =>
+          unsubscribes.forEach((unsubscribe): void =>
+            unsubscribe()
+          )
+      }),
+    check: (): Promise<void> =>
+      backend.check ? backend.check() : Promise.resolve()
+  })
+}
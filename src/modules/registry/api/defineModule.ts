@@ -0,0 +1,132 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { MongoConnector } from 'apollo-connector-mongodb'
+import { IRules } from 'graphql-shield'
+import {
+  IMiddleware,
+  IMiddlewareGenerator
+} from 'graphql-middleware'
+
+/**
+ * Collections of a module keyed by the name models read them with,
+ * modules type their own, e.g. `{ users: MongoEntity<User> }`
+ * @typedef ModuleEntities
+ */
+export type ModuleEntities = Record<string, unknown>
+
+/**
+ * Looks up one of the databases the module asked for
+ * @param name name of the connection
+ * @returns connector, throws for databases the module didn't ask for
+ * @typedef GetDatabase
+ */
+export type GetDatabase = (name: string) => MongoConnector
+
+/**
+ * Params a client sends when opening a WebSocket connection
+ * @typedef ConnectionParams
+ */
+export type ConnectionParams = Record<string, unknown>
+
+/**
+ * Checks whether a dependency of the module can be used
+ * @returns resolves when healthy, rejects with the reason otherwise
+ * @typedef HealthCheck
+ */
+export type HealthCheck = () => Promise<void>
+
+/**
+ * Versioned change to a module's databases, e.g. creating an index
+ * @typedef Migration
+ */
+export interface Migration {
+  /** sorts the module's migrations, never changed once applied, e.g. `001-unique-email` */
+  version: string
+  description: string
+  /**
+   * Applies the change
+   * @param getDatabase looks up the connections listed in the module's `databases`
+   */
+  up: (getDatabase: GetDatabase) => Promise<void>
+  /**
+   * Reverts the change
+   * @param getDatabase looks up the connections listed in the module's `databases`
+   */
+  down: (getDatabase: GetDatabase) => Promise<void>
+}
+
+/**
+ * Passed to a module's context builder
+ * @typedef ModuleContextArgs
+ */
+export interface ModuleContextArgs<M = object> {
+  /** request, or the upgrade request of a WebSocket connection */
+  req: IncomingMessage
+  /** response, never sent for WebSocket connections */
+  res: ServerResponse
+  /** models of every registered module */
+  models: M
+  /** context built by the modules this one depends on */
+  context: Record<string, unknown>
+  /** params of the WebSocket connection, `null` for http requests */
+  connection: ConnectionParams | null
+}
+
+/**
+ * Everything a module adds to the api
+ * @typedef ApiModule
+ */
+export interface ApiModule<
+  M = object,
+  C = object,
+  E extends object = ModuleEntities
+> {
+  /** unique name other modules refer to in `dependsOn` */
+  name: string
+  /** modules which have to be set up first */
+  dependsOn?: string[]
+  /** names of the connections the module's entities live in, the api won't serve without them */
+  databases?: string[]
+  /** Nexus types merged into the schema */
+  types?: unknown[]
+  /** shield rules keyed by type & field */
+  permissions?: IRules
+  /** applied after the permissions, in module order */
+  middlewares?: (
+    | IMiddleware
+    | IMiddlewareGenerator<unknown, unknown, unknown>)[]
+  /** checks run by the readiness probe, keyed by the dependency they check */
+  checks?: Record<string, HealthCheck>
+  /**
+   * Creates the module's collections
+   * @param getDatabase looks up the connections listed in `databases`
+   * @returns collections keyed by name
+   */
+  entities?: (getDatabase: GetDatabase) => E
+  /** applied in version order, after the migrations of the modules it depends on */
+  migrations?: Migration[]
+  /**
+   * Creates the module's data models for each request, so their loaders start out empty
+   * @param entities collections of every registered module, including the module's own
+   * @returns models keyed by name
+   */
+  models?: (entities: E) => M
+  /**
+   * Adds the module's values to the context of each request & WebSocket connection
+   * @param args request, response, models, context built so far & connection params
+   * @returns values merged into the context
+   */
+  context?: (args: ModuleContextArgs<M>) => C | Promise<C>
+}
+
+/**
+ * Declares a module which can be registered with the api
+ * @param definition types, permissions, entities, models, context & middlewares of the module
+ * @returns frozen module definition
+ */
+export const defineModule = <
+  M = object,
+  C = object,
+  E extends object = ModuleEntities
+>(
+  definition: ApiModule<M, C, E>
+): ApiModule<M, C, E> => Object.freeze({ ...definition })
@@ -0,0 +1,2 @@
+export * from './defineModule'
+export * from './registry'
@@ -0,0 +1,171 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { Socket } from 'net'
+
+import { defineModule, ApiModule } from './defineModule'
+import { generateModuleRegistry } from './registry'
+
+/**
+ * Defines module with just a name & dependencies
+ * @param name name of the module
+ * @param dependsOn modules it depends on
+ * @returns module definition
+ */
+const moduleNamed = (
+  name: string,
+  dependsOn?: string[]
+): ApiModule => defineModule({ name, dependsOn })
+
+/**
+ * Lists the names of the modules in the order the registry sorted them
+ * @param modules modules to register
+ * @returns sorted names
+ */
+const sortedNames = (modules: ApiModule[]): string[] =>
+  generateModuleRegistry(modules).modules.map(
+    ({ name }): string => name
+  )
+
+describe('generateModuleRegistry', (): void => {
+  it('sorts modules after the modules they depend on', (): void => {
+    const names = sortedNames([
+      moduleNamed('admin', ['auth', 'mail']),
+      moduleNamed('auth', ['pubsub']),
+      moduleNamed('mail'),
+      moduleNamed('pubsub')
+    ])
+
+    expect(names).toHaveLength(4)
+    expect(names.indexOf('pubsub')).toBeLessThan(
+      names.indexOf('auth')
+    )
+    expect(names.indexOf('auth')).toBeLessThan(
+      names.indexOf('admin')
+    )
+    expect(names.indexOf('mail')).toBeLessThan(
+      names.indexOf('admin')
+    )
+  })
+
+  it('keeps the registration order of independent modules', (): void => {
+    expect(
+      sortedNames([
+        moduleNamed('b'),
+        moduleNamed('a'),
+        moduleNamed('c')
+      ])
+    ).toEqual(['b', 'a', 'c'])
+  })
+
+  it('rejects modules registered twice', (): void => {
+    expect((): string[] =>
+      sortedNames([
+        moduleNamed('auth'),
+        moduleNamed('auth')
+      ])
+    ).toThrow('Module auth is registered twice')
+  })
+
+  it('rejects dependencies which are not registered', (): void => {
+    expect((): string[] =>
+      sortedNames([moduleNamed('auth', ['pubsub'])])
+    ).toThrow(
+      "Module auth depends on pubsub, which isn't registered"
+    )
+  })
+
+  it('rejects circular dependencies', (): void => {
+    expect((): string[] =>
+      sortedNames([
+        moduleNamed('a', ['b']),
+        moduleNamed('b', ['c']),
+        moduleNamed('c', ['a'])
+      ])
+    ).toThrow(
+      'Modules a -> b -> c -> a depend on each other'
+    )
+  })
+
+  it('rejects models defined by two modules', (): void => {
+    const registry = generateModuleRegistry([
+      defineModule({
+        name: 'auth',
+        models: (): object => ({ users: 'auth' })
+      }),
+      defineModule({
+        name: 'admin',
+        models: (): object => ({ users: 'admin' })
+      })
+    ])
+
+    expect((): object =>
+      registry.generateModels({})
+    ).toThrow('Model users is defined by both auth & admin')
+  })
+
+  it('orders migrations by module, then version', (): void => {
+    const migration = (
+      version: string
+    ): ApiModule['migrations'] => [
+      {
+        version,
+        description: version,
+        up: async (): Promise<void> => undefined,
+        down: async (): Promise<void> => undefined
+      }
+    ]
+    const { migrations } = generateModuleRegistry([
+      defineModule({
+        name: 'auth',
+        dependsOn: ['pubsub'],
+        migrations: [
+          ...migration('002-b'),
+          ...migration('001-a')
+        ]
+      }),
+      defineModule({
+        name: 'pubsub',
+        migrations: migration('001-z')
+      })
+    ])
+
+    expect(
+      migrations.map(
+        ({ module, version }): string =>
+          `${module}:${version}`
+      )
+    ).toEqual(['pubsub:001-z', 'auth:001-a', 'auth:002-b'])
+  })
+
+  it('builds the context in module order', async (): Promise<
+    void
+  > => {
+    const registry = generateModuleRegistry<
+      object,
+      { pubSub: string; user: string }
+    >([
+      defineModule({
+        name: 'auth',
+        dependsOn: ['pubsub'],
+        context: ({ context }): object => ({
+          user: `read ${context.pubSub}`
+        })
+      }),
+      defineModule({
+        name: 'pubsub',
+        context: (): object => ({ pubSub: 'pubSub' })
+      })
+    ])
+    const req = new IncomingMessage(new Socket())
+
+    const context = await registry.generateContext(
+      req,
+      new ServerResponse(req),
+      {}
+    )
+
+    expect(context).toMatchObject({
+      pubSub: 'pubSub',
+      user: 'read pubSub'
+    })
+  })
+})
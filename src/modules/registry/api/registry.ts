@@ -0,0 +1,400 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { IRules } from 'graphql-shield'
+import {
+  IRuleTypeMap,
+  IRuleFieldMap
+} from 'graphql-shield/dist/types'
+
+import {
+  ApiModule,
+  ModuleEntities,
+  ConnectionParams,
+  GetDatabase,
+  HealthCheck,
+  Migration
+} from './defineModule'
+
+/**
+ * Migration along with the module defining it
+ * @typedef ModuleMigration
+ */
+export interface ModuleMigration extends Migration {
+  module: string
+}
+
+/**
+ * Every registered module merged into what the api is built from,
+ * typed with the app's merged models & context
+ * @typedef ModuleRegistry
+ */
+export interface ModuleRegistry<
+  M extends object = object,
+  C extends object = object
+> {
+  /** modules sorted so each comes after its dependencies */
+  modules: ApiModule[]
+  types: unknown[]
+  /** names of the connections any module needs */
+  databases: string[]
+  /** shield rules of every module keyed by type & field */
+  permissions: IRuleTypeMap
+  middlewares: NonNullable<ApiModule['middlewares']>
+  /** health checks of every module keyed by the dependency they check */
+  checks: Record<string, HealthCheck>
+  /** migrations of every module, in the order they're applied */
+  migrations: ModuleMigration[]
+  /**
+   * Creates the collections of every module
+   * @param getDatabase looks up connections by name
+   * @returns collections keyed by name
+   */
+  generateEntities: (
+    getDatabase: GetDatabase
+  ) => ModuleEntities
+  /**
+   * Creates the data models of every module, once per request
+   * @param entities collections of every module
+   * @returns models keyed by name
+   */
+  generateModels: (entities: ModuleEntities) => M
+  /**
+   * Builds the context of a request or WebSocket connection from every module, in module order
+   * @param req Request coming from client
+   * @param res Response sent out to client
+   * @param models models of every module
+   * @param connection params of the WebSocket connection, `null` for http requests
+   * @returns context passed to resolvers
+   */
+  generateContext: (
+    req: IncomingMessage,
+    res: ServerResponse,
+    models: M,
+    connection?: ConnectionParams | null
+  ) => Promise<C>
+}
+
+/**
+ * Sorts modules so each comes after the modules it depends on
+ * @param modules registered modules
+ * @returns sorted modules, throws on unknown or circular dependencies
+ */
+const sortModules = (modules: ApiModule[]): ApiModule[] => {
+  const byName = modules.reduce((named, apiModule): Map<
+    string,
+    ApiModule
+  > => {
+    if (named.has(apiModule.name))
+      throw new Error(
+        `Module ${apiModule.name} is registered twice`
+      )
+
+    return named.set(apiModule.name, apiModule)
+  }, new Map<string, ApiModule>())
+  const sorted: ApiModule[] = []
+  const visiting: string[] = []
+
+  const visit = (apiModule: ApiModule): void => {
+    if (sorted.includes(apiModule)) return
+    if (visiting.includes(apiModule.name))
+      throw new Error(
+        `Modules ${[...visiting, apiModule.name].join(
+          ' -> '
+        )} depend on each other`
+      )
+
+    visiting.push(apiModule.name)
+    ;(apiModule.dependsOn || []).forEach((name): void => {
+      const dependency = byName.get(name)
+      if (!dependency)
+        throw new Error(
+          `Module ${apiModule.name} depends on ${name}, which isn't registered`
+        )
+
+      visit(dependency)
+    })
+    visiting.pop()
+    sorted.push(apiModule)
+  }
+
+  modules.forEach(visit)
+
+  return sorted
+}
+
+/**
+ * Merges the parts each module adds, no two modules may use the same key
+ * @param kind what the parts hold, used in errors
+ * @param parts parts along with the name of the module adding them
+ * @returns merged parts
+ */
+const mergeUnique = <R extends object>(
+  kind: string,
+  parts: [string, Partial<R>][]
+): R => {
+  const owners: Record<string, string> = {}
+  const merged: Partial<R> = {}
+
+  parts.forEach(([owner, part]): void => {
+    ;(Object.keys(part) as (keyof R)[]).forEach(
+      (key): void => {
+        const name = String(key)
+        if (owners[name])
+          throw new Error(
+            `${kind} ${name} is defined by both ${owners[name]} & ${owner}`
+          )
+
+        owners[name] = owner
+        merged[key] = part[key]
+      }
+    )
+  })
+
+  // the modules' parts add up to the whole
+  return merged as R
+}
+
+/**
+ * Checks whether the value is a map of rules rather than a rule
+ * @param value rule or map of rules
+ * @returns whether it's a plain object
+ */
+const isRuleMap = (
+  value: unknown
+): value is Record<string, IRules> =>
+  !!value &&
+  Object.getPrototypeOf(value) === Object.prototype
+
+/**
+ * Merges the rules of every module per type, shield would only keep one map per type
+ * @param modules sorted modules
+ * @returns rules keyed by type & field
+ */
+const mergePermissions = (
+  modules: ApiModule[]
+): IRuleTypeMap => {
+  const withPermissions = modules.filter(
+    ({ permissions }): boolean => !!permissions
+  )
+  withPermissions.forEach(({ name, permissions }): void => {
+    if (!isRuleMap(permissions))
+      throw new Error(
+        `Permissions of module ${name} have to be keyed by type`
+      )
+  })
+
+  const typeNames = withPermissions.reduce(
+    (names, { permissions }): string[] => [
+      ...names,
+      ...Object.keys(permissions as IRules).filter(
+        (type): boolean => !names.includes(type)
+      )
+    ],
+    [] as string[]
+  )
+
+  return typeNames.reduce<IRuleTypeMap>(
+    (merged, type): IRuleTypeMap => {
+      const rules = withPermissions
+        .map(({ name, permissions }): [string, IRules] => [
+          name,
+          (permissions as IRuleTypeMap)[type]
+        ])
+        .filter(([, rule]): boolean => !!rule)
+
+      // a rule for the whole type can't be combined with other modules' rules
+      merged[type] =
+        rules.length === 1 && !isRuleMap(rules[0][1])
+          ? (rules[0][1] as IRuleTypeMap[string])
+          : mergeUnique<IRuleFieldMap>(
+              `Permission for ${type}`,
+              rules.map(([name, rule]): [
+                string,
+                IRuleFieldMap
+              ] => {
+                if (!isRuleMap(rule))
+                  throw new Error(
+                    `Module ${name} sets a rule for the whole ${type} type, which other modules add fields to`
+                  )
+
+                return [name, rule as IRuleFieldMap]
+              })
+            )
+
+      return merged
+    },
+    {}
+  )
+}
+
+/**
+ * Limits the databases the module can look up to those it lists
+ * @param apiModule module using the databases
+ * @param getDatabase looks up connections by name
+ * @returns lookup throwing for databases the module didn't list
+ */
+const moduleDatabases = (
+  { name, databases = [] }: ApiModule,
+  getDatabase: GetDatabase
+): GetDatabase => (database): ReturnType<GetDatabase> => {
+  // keeps `databases` in line with what the module uses
+  if (!databases.includes(database))
+    throw new Error(
+      `Module ${name} uses database ${database} without listing it in databases`
+    )
+
+  return getDatabase(database)
+}
+
+/**
+ * Lists the migrations of every module, each module's sorted by version
+ * @param modules sorted modules
+ * @returns migrations in the order they're applied
+ */
+const listMigrations = (
+  modules: ApiModule[]
+): ModuleMigration[] =>
+  modules.reduce(
+    (migrations, apiModule): ModuleMigration[] => {
+      const own = [...(apiModule.migrations || [])].sort(
+        (a, b): number => a.version.localeCompare(b.version)
+      )
+      own.forEach(({ version }, i): void => {
+        if (i && own[i - 1].version === version)
+          throw new Error(
+            `Module ${apiModule.name} has two migrations with version ${version}`
+          )
+      })
+
+      return [
+        ...migrations,
+        ...own.map(
+          (migration): ModuleMigration => ({
+            ...migration,
+            module: apiModule.name,
+            up: (getDatabase): Promise<void> =>
+              migration.up(
+                moduleDatabases(apiModule, getDatabase)
+              ),
+            down: (getDatabase): Promise<void> =>
+              migration.down(
+                moduleDatabases(apiModule, getDatabase)
+              )
+          })
+        )
+      ]
+    },
+    [] as ModuleMigration[]
+  )
+
+/**
+ * Generates registry merging the given modules
+ * @param modules modules making up the api, in any order
+ * @returns module registry, typed with the app's merged models & context
+ */
+export const generateModuleRegistry = <
+  M extends object = object,
+  C extends object = object
+>(
+  modules: ApiModule[]
+): ModuleRegistry<M, C> => {
+  const sorted = sortModules(modules)
+
+  const generateEntities = (
+    getDatabase: GetDatabase
+  ): ModuleEntities =>
+    mergeUnique<ModuleEntities>(
+      'Entity',
+      sorted.map((apiModule): [string, ModuleEntities] => [
+        apiModule.name,
+        apiModule.entities
+          ? apiModule.entities(
+              moduleDatabases(apiModule, getDatabase)
+            )
+          : {}
+      ])
+    )
+
+  const generateModels = (entities: ModuleEntities): M =>
+    mergeUnique<M>(
+      'Model',
+      sorted.map(({ name, models }): [
+        string,
+        Partial<M>
+      ] => [name, models ? models(entities) : {}])
+    )
+
+  const generateContext = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    models: M,
+    connection: ConnectionParams | null = null
+  ): Promise<C> => {
+    let context: Partial<C> = {}
+
+    // runs one after the other so modules can read what their dependencies added
+    for (const apiModule of sorted)
+      if (apiModule.context)
+        context = {
+          ...context,
+          ...(await apiModule.context({
+            req,
+            res,
+            models,
+            context,
+            connection
+          }))
+        }
+
+    const built: Partial<C> = {
+      ...context,
+      req,
+      res,
+      models
+    }
+
+    // the modules' contexts add up to the whole
+    return built as C
+  }
+
+  return Object.freeze({
+    modules: sorted,
+    types: sorted.reduce(
+      (types, apiModule): unknown[] => [
+        ...types,
+        ...(apiModule.types || [])
+      ],
+      [] as unknown[]
+    ),
+    databases: sorted.reduce(
+      (names, { databases = [] }): string[] => [
+        ...names,
+        ...databases.filter(
+          (database): boolean => !names.includes(database)
+        )
+      ],
+      [] as string[]
+    ),
+    permissions: mergePermissions(sorted),
+    middlewares: sorted.reduce(
+      (
+        middlewares,
+        apiModule
+      ): ModuleRegistry['middlewares'] => [
+        ...middlewares,
+        ...(apiModule.middlewares || [])
+      ],
+      [] as ModuleRegistry['middlewares']
+    ),
+    checks: mergeUnique<Record<string, HealthCheck>>(
+      'Health check',
+      sorted.map(({ name, checks = {} }): [
+        string,
+        Record<string, HealthCheck>
+      ] => [name, checks])
+    ),
+    migrations: listMigrations(sorted),
+    generateEntities,
+    generateModels,
+    generateContext
+  })
+}
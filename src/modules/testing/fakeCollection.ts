@@ -0,0 +1,511 @@
+import { ObjectID, Collection } from 'mongodb'
+import { MongoEntity } from 'apollo-connector-mongodb'
+
+type Doc = Record<string, unknown>
+
+/**
+ * Cursor over the documents matching a selector
+ * @typedef FakeCursor
+ */
+export interface FakeCursor<T> {
+  sort: (spec: Record<string, 1 | -1>) => FakeCursor<T>
+  skip: (count: number) => FakeCursor<T>
+  limit: (count: number) => FakeCursor<T>
+  toArray: () => Promise<T[]>
+}
+
+/**
+ * In-memory stand in for the part of a Mongo collection the models use,
+ * the same methods `MongoEntity` offers
+ * @typedef FakeCollection
+ */
+export interface FakeCollection<T> {
+  collectionName: string
+  /** documents currently stored, for assertions */
+  docs: T[]
+  insertOne: (doc: T) => Promise<{ insertedId: unknown }>
+  findOne: (selector: object) => Promise<T | null>
+  find: (selector?: object) => FakeCursor<T>
+  countDocuments: (selector?: object) => Promise<number>
+  updateOne: (
+    selector: object,
+    update: object,
+    options?: { upsert?: boolean }
+  ) => Promise<{
+    matchedCount: number
+    modifiedCount: number
+    upsertedCount: number
+  }>
+  updateMany: (
+    selector: object,
+    update: object
+  ) => Promise<{
+    matchedCount: number
+    modifiedCount: number
+  }>
+  deleteOne: (
+    selector: object
+  ) => Promise<{ deletedCount: number }>
+  deleteMany: (
+    selector: object
+  ) => Promise<{ deletedCount: number }>
+}
+
+/**
+ * Turns ids & dates into values comparable with `===` & `<`
+ * @param value value of a field or selector
+ * @returns comparable value
+ */
+const normalize = (value: unknown): unknown => {
+  if (value instanceof ObjectID) return value.toHexString()
+  if (value instanceof Date) return value.getTime()
+
+  return value
+}
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) ===
+    JSON.stringify(normalize(b)) ||
+  normalize(a) === normalize(b)
+
+/**
+ * Copies the document so changes to it don't leak into the collection
+ * @param value document or a value in it
+ * @returns copy
+ */
+const clone = <V>(value: V): V => {
+  if (Array.isArray(value))
+    return (value.map(clone) as unknown) as V
+  if (
+    value &&
+    typeof value === 'object' &&
+    !(value instanceof ObjectID) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  )
+    return Object.keys(value).reduce<Doc>(
+      (copy, key): Doc => ({
+        ...copy,
+        [key]: clone((value as Doc)[key])
+      }),
+      {}
+    ) as V
+
+  return value
+}
+
+const getPath = (doc: Doc, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key): unknown =>
+        value && typeof value === 'object'
+          ? (value as Doc)[key]
+          : undefined,
+      doc
+    )
+
+const setPath = (
+  doc: Doc,
+  path: string,
+  value: unknown
+): void => {
+  const keys = path.split('.')
+  const parent = keys
+    .slice(0, -1)
+    .reduce<Doc>((target, key): Doc => {
+      if (!target[key] || typeof target[key] !== 'object')
+        target[key] = {}
+      return target[key] as Doc
+    }, doc)
+
+  parent[keys[keys.length - 1]] = value
+}
+
+const unsetPath = (doc: Doc, path: string): void => {
+  const keys = path.split('.')
+  const parent = getPath(doc, keys.slice(0, -1).join('.'))
+  const target = keys.length > 1 ? parent : doc
+  if (target && typeof target === 'object')
+    delete (target as Doc)[keys[keys.length - 1]]
+}
+
+/**
+ * Checks whether the condition of a selector is made of operators, e.g. `{ $gte: 1 }`
+ * @param condition condition of a field
+ * @returns whether it's operators rather than a value
+ */
+const isOperators = (condition: unknown): boolean =>
+  !!condition &&
+  typeof condition === 'object' &&
+  !(condition instanceof ObjectID) &&
+  !(condition instanceof Date) &&
+  !Array.isArray(condition) &&
+  Object.keys(condition as Doc).every((key): boolean =>
+    key.startsWith('$')
+  )
+
+/**
+ * Checks the value of a field against the condition of a selector
+ * @param value value of the field, `undefined` when it's missing
+ * @param condition value or operators the field has to match
+ * @returns whether it matches
+ */
+const matchesCondition = (
+  value: unknown,
+  condition: unknown
+): boolean => {
+  if (!isOperators(condition)) {
+    if (condition === null)
+      return value === null || value === undefined
+    if (Array.isArray(value) && !Array.isArray(condition))
+      return value.some((item): boolean =>
+        isEqual(item, condition)
+      )
+    return isEqual(value, condition)
+  }
+
+  return Object.keys(condition as Doc).every(
+    (operator): boolean => {
+      const operand = (condition as Doc)[operator]
+      const a = normalize(value) as number
+      const b = normalize(operand) as number
+
+      switch (operator) {
+        case '$eq':
+          return matchesCondition(value, operand)
+        case '$ne':
+          return !matchesCondition(value, operand)
+        case '$in':
+          return (operand as unknown[]).some(
+            (item): boolean => matchesCondition(value, item)
+          )
+        case '$nin':
+          return !(operand as unknown[]).some(
+            (item): boolean => matchesCondition(value, item)
+          )
+        case '$exists':
+          return (value !== undefined) === !!operand
+        case '$gt':
+          return value !== undefined && a > b
+        case '$gte':
+          return value !== undefined && a >= b
+        case '$lt':
+          return value !== undefined && a < b
+        case '$lte':
+          return value !== undefined && a <= b
+        default:
+          throw new Error(
+            `Unsupported operator ${operator}`
+          )
+      }
+    }
+  )
+}
+
+/**
+ * Checks whether the document matches the selector
+ * @param doc stored document
+ * @param selector fields & conditions, `$or` & `$and` included
+ * @returns whether it matches
+ */
+const matches = (doc: Doc, selector: Doc): boolean =>
+  Object.keys(selector).every((key): boolean => {
+    if (key === '$or')
+      return (selector.$or as Doc[]).some((part): boolean =>
+        matches(doc, part)
+      )
+    if (key === '$and')
+      return (selector.$and as Doc[]).every(
+        (part): boolean => matches(doc, part)
+      )
+
+    return matchesCondition(
+      getPath(doc, key),
+      selector[key]
+    )
+  })
+
+/**
+ * Applies the update operators to the document in place
+ * @param doc stored document
+ * @param update update operators
+ * @param inserting whether the document is being upserted
+ */
+const applyUpdate = (
+  doc: Doc,
+  update: Doc,
+  inserting: boolean
+): void =>
+  Object.keys(update).forEach((operator): void => {
+    const fields = update[operator] as Doc
+
+    Object.keys(fields).forEach((path): void => {
+      const value = clone(fields[path])
+      const current = getPath(doc, path)
+
+      switch (operator) {
+        case '$set':
+          return setPath(doc, path, value)
+        case '$setOnInsert':
+          if (inserting) setPath(doc, path, value)
+          return
+        case '$unset':
+          return unsetPath(doc, path)
+        case '$inc':
+          return setPath(
+            doc,
+            path,
+            ((current as number) || 0) + (value as number)
+          )
+        case '$push':
+          return setPath(doc, path, [
+            ...((current as unknown[]) || []),
+            value
+          ])
+        case '$addToSet':
+          return setPath(
+            doc,
+            path,
+            ((current as unknown[]) || []).some(
+              (item): boolean => isEqual(item, value)
+            )
+              ? current
+              : [...((current as unknown[]) || []), value]
+          )
+        case '$pull':
+          return setPath(
+            doc,
+            path,
+            ((current as unknown[]) || []).filter(
+              (item): boolean =>
+                !matchesCondition(item, value)
+            )
+          )
+        default:
+          throw new Error(
+            `Unsupported operator ${operator}`
+          )
+      }
+    })
+  })
+
+/**
+ * Builds the error the driver throws for a duplicate key
+ * @returns duplicate key error
+ */
+const duplicateKeyError = (): Error =>
+  Object.assign(new Error('E11000 duplicate key error'), {
+    code: 11000
+  })
+
+/**
+ * Generates in-memory collection, enough for unit tests of the models
+ * @param name name of the collection
+ * @param initial documents it starts with
+ * @returns fake collection
+ */
+export const generateFakeCollection = <T extends object>(
+  name = 'fake',
+  initial: T[] = []
+): FakeCollection<T> => {
+  const docs: Doc[] = initial.map(clone) as Doc[]
+
+  const select = (selector: object = {}): Doc[] =>
+    docs.filter((doc): boolean =>
+      matches(doc, selector as Doc)
+    )
+
+  const insertOne = async (
+    doc: T
+  ): Promise<{ insertedId: unknown }> => {
+    const stored = clone(doc) as Doc
+    if (stored._id === undefined)
+      stored._id = new ObjectID()
+    if (
+      docs.some((existing): boolean =>
+        isEqual(existing._id, stored._id)
+      )
+    )
+      throw duplicateKeyError()
+
+    docs.push(stored)
+
+    return { insertedId: stored._id }
+  }
+
+  const findOne = async (
+    selector: object
+  ): Promise<T | null> => {
+    const [found] = select(selector)
+
+    return found ? (clone(found) as T) : null
+  }
+
+  const find = (selector?: object): FakeCursor<T> => {
+    let results = select(selector)
+    let skipped = 0
+    let limited = 0
+
+    const cursor: FakeCursor<T> = {
+      sort: (spec): FakeCursor<T> => {
+        results = [...results].sort((a, b): number => {
+          for (const key of Object.keys(spec)) {
+            const x = normalize(getPath(a, key)) as number
+            const y = normalize(getPath(b, key)) as number
+            if (x < y) return -spec[key]
+            if (x > y) return spec[key]
+          }
+          return 0
+        })
+        return cursor
+      },
+      skip: (count): FakeCursor<T> => {
+        skipped = count
+        return cursor
+      },
+      limit: (count): FakeCursor<T> => {
+        limited = count
+        return cursor
+      },
+      toArray: async (): Promise<T[]> =>
+        results
+          .slice(
+            skipped,
+            limited ? skipped + limited : undefined
+          )
+          .map((doc): T => clone(doc) as T)
+    }
+
+    return cursor
+  }
+
+  const countDocuments = async (
+    selector?: object
+  ): Promise<number> => select(selector).length
+
+  const updateOne = async (
+    selector: object,
+    update: object,
+    { upsert = false }: { upsert?: boolean } = {}
+  ): Promise<{
+    matchedCount: number
+    modifiedCount: number
+    upsertedCount: number
+  }> => {
+    const [found] = select(selector)
+    if (found) {
+      const before = JSON.stringify(found)
+      applyUpdate(found, update as Doc, false)
+
+      return {
+        matchedCount: 1,
+        modifiedCount:
+          before === JSON.stringify(found) ? 0 : 1,
+        upsertedCount: 0
+      }
+    }
+    if (!upsert)
+      return {
+        matchedCount: 0,
+        modifiedCount: 0,
+        upsertedCount: 0
+      }
+
+    // equality conditions of the selector become fields of the new document
+    const doc = Object.keys(selector).reduce<Doc>(
+      (fields, key): Doc => {
+        const condition = (selector as Doc)[key]
+        if (!key.startsWith('$') && !isOperators(condition))
+          setPath(fields, key, clone(condition))
+        return fields
+      },
+      {}
+    )
+    applyUpdate(doc, update as Doc, true)
+    await insertOne(doc as T)
+
+    return {
+      matchedCount: 0,
+      modifiedCount: 0,
+      upsertedCount: 1
+    }
+  }
+
+  const updateMany = async (
+    selector: object,
+    update: object
+  ): Promise<{
+    matchedCount: number
+    modifiedCount: number
+  }> => {
+    const found = select(selector)
+    const modified = found.filter((doc): boolean => {
+      const before = JSON.stringify(doc)
+      applyUpdate(doc, update as Doc, false)
+      return before !== JSON.stringify(doc)
+    })
+
+    return {
+      matchedCount: found.length,
+      modifiedCount: modified.length
+    }
+  }
+
+  const remove = (
+    selector: object,
+    many: boolean
+  ): number => {
+    const found = select(selector).slice(
+      0,
+      many ? undefined : 1
+    )
+    found.forEach((doc): void => {
+      docs.splice(docs.indexOf(doc), 1)
+    })
+
+    return found.length
+  }
+
+  return Object.freeze({
+    collectionName: name,
+    get docs(): T[] {
+      return docs.map((doc): T => clone(doc) as T)
+    },
+    insertOne,
+    findOne,
+    find,
+    countDocuments,
+    updateOne,
+    updateMany,
+    deleteOne: async (
+      selector
+    ): Promise<{ deletedCount: number }> => ({
+      deletedCount: remove(selector, false)
+    }),
+    deleteMany: async (
+      selector
+    ): Promise<{ deletedCount: number }> => ({
+      deletedCount: remove(selector, true)
+    })
+  })
+}
+
+/**
+ * Hands the fake to code expecting an entity, it offers the same methods
+ * @param collection fake collection
+ * @returns the fake, typed as an entity
+ */
+export const asEntity = <T>(
+  collection: FakeCollection<T>
+): MongoEntity<T> =>
+  (collection as unknown) as MongoEntity<T>
+
+/**
+ * Hands the fake to code expecting a driver collection, it offers the methods used
+ * @param collection fake collection
+ * @returns the fake, typed as a collection
+ */
+export const asCollection = <T>(
+  collection: FakeCollection<T>
+): Collection<T> => (collection as unknown) as Collection<T>
@@ -9,6 +9,7 @@ import {
 } from 'apollo-boost'
 import { ThemeProvider } from '@material-ui/styles'
 import { CssBaseline } from '@material-ui/core'
+import { AuthProvider } from '@nextq/auth/client'
 import theme from '../utils/theme'
 
 interface Props {
@@ -33,10 +34,12 @@ class MyApp extends App<Props> {
     return (
       <Container>
         <ApolloProvider client={apollo}>
-          <ThemeProvider theme={theme}>
-            <CssBaseline />
-            <Component {...pageProps} />
-          </ThemeProvider>
+          <AuthProvider>
+            <ThemeProvider theme={theme}>
+              <CssBaseline />
+              <Component {...pageProps} />
+            </ThemeProvider>
+          </AuthProvider>
         </ApolloProvider>
       </Container>
     )
@@ -0,0 +1,6 @@
+import {
+  AccountPage,
+  withAuth
+} from '@nextq/auth/components'
+
+export default withAuth(AccountPage)
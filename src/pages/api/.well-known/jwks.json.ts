@@ -0,0 +1 @@
+export { jwks as default } from '@nextq/bootstrapApi/jwks'
@@ -0,0 +1,3 @@
+export {
+  openidConfiguration as default
+} from '@nextq/bootstrapApi/jwks'
@@ -0,0 +1,3 @@
+export {
+  authorize as default
+} from '@nextq/bootstrapApi/oidc'
@@ -0,0 +1,3 @@
+export {
+  callback as default
+} from '@nextq/bootstrapApi/oidc'
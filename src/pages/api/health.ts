@@ -0,0 +1,3 @@
+export {
+  health as default
+} from '@nextq/bootstrapApi/health'
@@ -0,0 +1,3 @@
+export {
+  ready as default
+} from '@nextq/bootstrapApi/health'
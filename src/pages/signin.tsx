@@ -0,0 +1,3 @@
+export {
+  SignInPage as default
+} from '@nextq/auth/components'
@@ -0,0 +1,3 @@
+export {
+  SignUpPage as default
+} from '@nextq/auth/components'
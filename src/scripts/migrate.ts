@@ -0,0 +1,83 @@
+import { MigrationStatus } from '@nextq/migrations/api'
+import {
+  connectModuleDBs,
+  generateAppMigrator
+} from '@nextq/bootstrapApi/services'
+
+const usage = `Usage: yarn migrate <command>
+
+Commands:
+  status      lists every migration & whether it's applied
+  up          applies every pending migration
+  down [n]    reverts the n most recently applied migrations, 1 by default`
+
+/**
+ * Formats the migration as one line of output
+ * @param migration migration to print
+ * @returns line describing the migration
+ */
+const formatMigration = ({
+  module,
+  version,
+  description,
+  appliedAt
+}: MigrationStatus): string =>
+  `${
+    appliedAt
+      ? appliedAt.toISOString()
+      : 'pending'.padEnd(24)
+  }  ${module}/${version}  ${description}`
+
+/**
+ * Runs the command given on the command line
+ * @param args command line arguments after the script
+ */
+const run = async ([command, steps]: string[]): Promise<
+  void
+> => {
+  if (
+    !['status', 'up', 'down'].includes(command) ||
+    (steps && !/^[1-9]\d*$/.test(steps))
+  ) {
+    console.error(usage)
+    process.exitCode = 1
+    return
+  }
+
+  const connections = await connectModuleDBs()
+  const migrator = generateAppMigrator(connections)
+
+  try {
+    if (command === 'status') {
+      const migrations = await migrator.status()
+      console.info(
+        migrations.length
+          ? migrations.map(formatMigration).join('\n')
+          : 'No migrations defined'
+      )
+    } else if (command === 'up') {
+      const applied = await migrator.up()
+      console.info(
+        applied.length
+          ? applied.map(formatMigration).join('\n')
+          : 'No pending migrations'
+      )
+    } else {
+      const reverted = await migrator.down(
+        steps ? parseInt(steps, 10) : 1
+      )
+      console.info(
+        reverted.length
+          ? reverted.map(formatMigration).join('\n')
+          : 'No applied migrations'
+      )
+    }
+  } finally {
+    await connections.close()
+  }
+}
+
+run(process.argv.slice(2)).catch((error): void => {
+  console.error(error.message)
+  process.exitCode = 1
+})
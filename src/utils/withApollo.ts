@@ -1,10 +1,182 @@
 import withApollo from 'next-with-apollo'
-import ApolloClient, { InMemoryCache } from 'apollo-boost'
+import {
+  ApolloClient,
+  InMemoryCache,
+  HttpLink,
+  IntrospectionFragmentMatcher,
+  ApolloLink
+} from 'apollo-boost'
+import { IncomingHttpHeaders, ServerResponse } from 'http'
+import { DocumentNode } from 'graphql'
+
+import {
+  authTokens,
+  authPossibleTypes,
+  generateAuthLink,
+  generateTokenStore,
+  generateTokenRefresher,
+  generateSubscriptionLink,
+  SubscriptionLink
+} from '@nextq/auth/client'
+
+const API_PATH = '/api'
+
+// request headers passed on to the api while rendering on the server
+const FORWARDED_HEADERS = [
+  'cookie',
+  'authorization',
+  'user-agent',
+  'accept-language'
+]
+
+/**
+ * Picks the headers the api needs to see the same user as the page
+ * @param headers headers of the page request
+ * @returns headers to send to the api
+ */
+const forwardedHeaders = (
+  headers: IncomingHttpHeaders = {}
+): Record<string, string> =>
+  FORWARDED_HEADERS.reduce<Record<string, string>>(
+    (forwarded, name): Record<string, string> => {
+      const value = headers[name]
+      if (value)
+        forwarded[name] = Array.isArray(value)
+          ? value.join(', ')
+          : value
+
+      return forwarded
+    },
+    {}
+  )
+
+/**
+ * Generates fetch for rendering on the server, which passes the cookies the api
+ * sets, e.g. after refreshing tokens, on to the page response
+ * @param res Response sent out to client
+ * @returns fetch function
+ */
+const generateServerFetch = (
+  res?: ServerResponse
+): typeof fetch => async (
+  input: RequestInfo,
+  init?: RequestInit
+): Promise<Response> => {
+  const response = await fetch(input, init)
+  // node-fetch keeps each Set-Cookie header apart in raw()
+  const { raw } = (response.headers as unknown) as {
+    raw?: () => Record<string, string[]>
+  }
+  const cookies =
+    raw && raw.call(response.headers)['set-cookie']
+
+  if (res && cookies && !res.headersSent) {
+    const current = res.getHeader('Set-Cookie') || []
+    res.setHeader('Set-Cookie', [
+      ...(Array.isArray(current)
+        ? current
+        : [String(current)]),
+      ...cookies
+    ])
+  }
+
+  return response
+}
+
+/**
+ * Checks whether the operation is a subscription
+ * @param param0 operation document
+ * @returns whether it should go over the WebSocket
+ */
+const isSubscription = ({
+  query
+}: {
+  query: DocumentNode
+}): boolean =>
+  query.definitions.some(
+    (definition): boolean =>
+      definition.kind === 'OperationDefinition' &&
+      definition.operation === 'subscription'
+  )
+
+/**
+ * Generates the browser's subscription link, which shares refreshes with the auth link
+ * @param refresh refresher of the auth link
+ * @returns subscription link
+ */
+const generateBrowserSubscriptionLink = (
+  refresh: () => Promise<boolean>
+): SubscriptionLink =>
+  generateSubscriptionLink({
+    uri: `${
+      window.location.protocol === 'https:' ? 'wss' : 'ws'
+    }://${window.location.host}${API_PATH}`,
+    tokens: authTokens,
+    refresh
+  })
 
 export default withApollo(
-  ({ ctx, headers, initialState }) =>
-    new ApolloClient({
-      uri: 'http://localhost:3000/api',
-      cache: new InMemoryCache().restore(initialState || {})
+  ({ ctx, headers, initialState }) => {
+    const isServer = typeof window === 'undefined'
+    // the server has no page url to resolve a relative uri against
+    const uri = isServer
+      ? `${process.env.APP_URL ||
+          'http://localhost:3000'}${API_PATH}`
+      : API_PATH
+    const fetchFn = isServer
+      ? generateServerFetch(ctx && ctx.res)
+      : fetch
+    // pages rendered on the server are authenticated by the forwarded cookies
+    const tokens = isServer
+      ? generateTokenStore()
+      : authTokens
+    const refresh = generateTokenRefresher({
+      uri,
+      tokens,
+      fetch: fetchFn
     })
+    const httpLink = ApolloLink.from([
+      generateAuthLink({
+        uri,
+        tokens,
+        fetch: fetchFn,
+        refresh
+      }),
+      new HttpLink({
+        uri,
+        credentials: 'same-origin',
+        headers: isServer ? forwardedHeaders(headers) : {},
+        fetch: fetchFn
+      })
+    ])
+    // subscriptions aren't run while rendering on the server
+    const subscriptionLink = isServer
+      ? null
+      : generateBrowserSubscriptionLink(refresh)
+
+    const client = new ApolloClient({
+      ssrMode: isServer,
+      link: subscriptionLink
+        ? ApolloLink.split(
+            isSubscription,
+            subscriptionLink.link,
+            httpLink
+          )
+        : httpLink,
+      cache: new InMemoryCache({
+        fragmentMatcher: new IntrospectionFragmentMatcher({
+          introspectionQueryResultData: authPossibleTypes
+        })
+      }).restore(initialState || {})
+    })
+
+    // the store is reset whenever the user changes, the WebSocket follows
+    if (subscriptionLink)
+      client.onResetStore(
+        async (): Promise<void> =>
+          subscriptionLink.reconnect()
+      )
+
+    return client
+  }
 )